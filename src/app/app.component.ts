@@ -1,20 +1,44 @@
-import { AfterViewInit, Component, ElementRef, OnDestroy, ViewChild } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { AfterViewInit, Component, ElementRef, OnDestroy, OnInit, ViewChild } from '@angular/core';
 import Konva from 'konva';
 import { Subscription } from 'rxjs';
-import { DrawingStateService } from './drawing-state.service';
+import { AutosaveService } from './autosave.service';
+import { ContextMenuComponent } from './context-menu/context-menu.component';
+import { DimensionEditorComponent } from './dimension-editor/dimension-editor.component';
+import { DrawingDocument, DrawingDocumentError, DrawingDocumentService } from './drawing-document.service';
+import { AlignEdge, DrawingSettings, DrawingStateService, LengthUnit } from './drawing-state.service';
+import { DxfExportService } from './dxf-export.service';
+import { GridService } from './grid.service';
 import { InteractionService } from './interaction.service';
 import { KonvaRendererService } from './konva-renderer.service';
+import { NestingPanelComponent } from './nesting-panel/nesting-panel.component';
+import { NoticeService } from './notice.service';
+import { NoticeComponent } from './notice/notice.component';
+import { ObjectSnapService } from './object-snap.service';
+import { PropertiesPanelComponent } from './properties-panel/properties-panel.component';
+import { SvgExportService } from './svg-export.service';
+import { TakeoffPanelComponent } from './takeoff-panel/takeoff-panel.component';
+import { UNIT_LABELS, UnitsService } from './units.service';
+import { ViewportService } from './viewport.service';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [],
+  imports: [ContextMenuComponent, DatePipe, DimensionEditorComponent, NestingPanelComponent, NoticeComponent, PropertiesPanelComponent, TakeoffPanelComponent],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss'],
 })
-export class AppComponent implements AfterViewInit, OnDestroy {
+export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
   @ViewChild('drawing') drawingElement: ElementRef | undefined;
 
+  // Snapshot left by the previous session, offered for restore on startup
+  recoveredDrawing: DrawingDocument | null = null;
+  showNesting = false;
+
+  readonly units: LengthUnit[] = ['mm', 'cm', 'm', 'in', 'ft-in'];
+  readonly unitLabels = UNIT_LABELS;
+  readonly precisions = [0, 1, 2, 3];
+
   private stage: Konva.Stage | undefined;
   private layer: Konva.Layer | undefined;
   private stateSubscription: Subscription | undefined;
@@ -22,9 +46,23 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   constructor(
     private stateSvc: DrawingStateService,
     private rendererSvc: KonvaRendererService,
-    private interactionSvc: InteractionService
+    private interactionSvc: InteractionService,
+    private documentSvc: DrawingDocumentService,
+    private autosaveSvc: AutosaveService,
+    private svgExportSvc: SvgExportService,
+    private dxfExportSvc: DxfExportService,
+    private unitsSvc: UnitsService,
+    private viewportSvc: ViewportService,
+    private gridSvc: GridService,
+    private objectSnapSvc: ObjectSnapService,
+    private noticeSvc: NoticeService
   ) {}
 
+  ngOnInit(): void {
+    this.recoveredDrawing = this.autosaveSvc.getRecoverableDrawing();
+    this.autosaveSvc.start();
+  }
+
   ngAfterViewInit(): void {
     if (!this.drawingElement) return;
 
@@ -33,16 +71,24 @@ export class AppComponent implements AfterViewInit, OnDestroy {
       width: window.innerWidth,
       height: window.innerHeight,
     });
+    // The grid sits on its own layer, below the drawing
+    const gridLayer = new Konva.Layer();
     this.layer = new Konva.Layer();
+    this.stage.add(gridLayer);
     this.stage.add(this.layer);
 
     // 1. Initialize the renderer which creates the shapes based on initial state
     this.rendererSvc.initialize(this.layer);
 
-    // 2. Initialize interactions which attaches event listeners
+    // 2. Initialize zoom/pan first, so its handlers see the pointer before drawing does
+    this.viewportSvc.initialize(this.stage);
+    this.gridSvc.initialize(this.stage, gridLayer);
+    this.objectSnapSvc.initialize(this.layer);
+
+    // 3. Initialize interactions which attaches event listeners
     this.interactionSvc.initialize(this.stage, this.layer);
 
-    // 3. Subscribe to state changes to trigger re-renders
+    // 4. Subscribe to state changes to trigger re-renders
     this.stateSubscription = this.stateSvc.state$.subscribe(state => {
       this.rendererSvc.render(state);
       this.interactionSvc.updateHandlers();
@@ -52,4 +98,226 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   ngOnDestroy(): void {
     this.stateSubscription?.unsubscribe();
   }
+
+  get settings(): DrawingSettings {
+    return this.stateSvc.getState().settings;
+  }
+
+  setUnit(unit: string): void {
+    this.stateSvc.updateSettings({ unit: unit as LengthUnit });
+  }
+
+  setPrecision(precision: string): void {
+    this.stateSvc.updateSettings({ precision: parseInt(precision, 10) });
+  }
+
+  setScale(input: HTMLInputElement): void {
+    const mmPerPixel = parseFloat(input.value);
+    if (isNaN(mmPerPixel) || mmPerPixel <= 0) {
+      input.value = String(this.settings.mmPerPixel);
+      return;
+    }
+    this.stateSvc.updateSettings({ mmPerPixel });
+  }
+
+  setShowGrid(showGrid: boolean): void {
+    this.stateSvc.updateSettings({ showGrid });
+  }
+
+  setSnapToGrid(snapToGrid: boolean): void {
+    this.stateSvc.updateSettings({ snapToGrid });
+  }
+
+  get gridSpacing(): string {
+    return this.unitsSvc.formatLengthValue(this.unitsSvc.mmToPx(this.settings.gridSpacingMm));
+  }
+
+  setGridSpacing(input: HTMLInputElement): void {
+    const spacing = this.unitsSvc.parseLength(input.value);
+    if (spacing !== null && spacing > 0) {
+      this.stateSvc.updateSettings({ gridSpacingMm: this.unitsSvc.pxToMm(spacing) });
+    }
+    input.value = this.gridSpacing;
+  }
+
+  get snapTolerance(): number {
+    return this.objectSnapSvc.tolerancePx;
+  }
+
+  setSnapTolerance(input: HTMLInputElement): void {
+    const tolerance = parseFloat(input.value);
+    if (!isNaN(tolerance) && tolerance >= 0) {
+      this.objectSnapSvc.tolerancePx = tolerance;
+    }
+    input.value = String(this.snapTolerance);
+  }
+
+  get pipeDepth(): string {
+    return this.unitsSvc.formatLengthValue(this.unitsSvc.mmToPx(this.interactionSvc.pipeDepthMm));
+  }
+
+  get unitLabel(): string {
+    return this.unitsSvc.unitLabel();
+  }
+
+  setPipeDepth(input: HTMLInputElement): void {
+    const depth = this.unitsSvc.parseLength(input.value);
+    if (depth !== null && depth > 0) {
+      this.interactionSvc.pipeDepthMm = this.unitsSvc.pxToMm(depth);
+    }
+    input.value = this.pipeDepth;
+  }
+
+  zoomIn(): void {
+    this.viewportSvc.zoomBy(1.25);
+  }
+
+  zoomOut(): void {
+    this.viewportSvc.zoomBy(0.8);
+  }
+
+  zoomToFit(): void {
+    this.viewportSvc.zoomToFit();
+  }
+
+  zoomToSelection(): void {
+    this.viewportSvc.zoomToSelection();
+  }
+
+  get hasSelection(): boolean {
+    return this.selectionCount > 0;
+  }
+
+  get selectionCount(): number {
+    return this.stateSvc.getState().selectedShapeIds.length;
+  }
+
+  // Copies land one grid step away, so they stay on the grid
+  duplicateSelection(): void {
+    const offset = this.gridSvc.spacing;
+    this.stateSvc.duplicateShapes(this.stateSvc.getState().selectedShapeIds, offset, offset);
+  }
+
+  deleteSelection(): void {
+    this.stateSvc.deleteShapes(this.stateSvc.getState().selectedShapeIds);
+  }
+
+  alignSelection(edge: AlignEdge): void {
+    this.stateSvc.alignShapes(this.stateSvc.getState().selectedShapeIds, edge);
+  }
+
+  distributeSelection(axis: 'x' | 'y'): void {
+    this.stateSvc.distributeShapes(this.stateSvc.getState().selectedShapeIds, axis);
+  }
+
+  // Degrees, counterclockwise
+  rotateSelection(angle: number): void {
+    this.stateSvc.rotateShapes(
+      this.stateSvc.getState().selectedShapeIds,
+      angle,
+      this.interactionSvc.rotationPivot ?? undefined
+    );
+  }
+
+  rotateSelectionBy(input: HTMLInputElement): void {
+    const angle = parseFloat(input.value.replace(',', '.'));
+    if (!isNaN(angle)) {
+      this.rotateSelection(angle);
+    }
+  }
+
+  flipSelection(direction: 'horizontal' | 'vertical'): void {
+    this.stateSvc.flipShapes(
+      this.stateSvc.getState().selectedShapeIds,
+      direction,
+      this.interactionSvc.rotationPivot ?? undefined
+    );
+  }
+
+  get hasRotationPivot(): boolean {
+    return this.interactionSvc.rotationPivot !== null || this.interactionSvc.isPickingPivot;
+  }
+
+  toggleRotationPivot(): void {
+    if (this.hasRotationPivot) {
+      this.interactionSvc.clearRotationPivot();
+    } else {
+      this.interactionSvc.pickRotationPivot();
+    }
+  }
+
+  get isDrawingSeam(): boolean {
+    return this.interactionSvc.isDrawingSeam;
+  }
+
+  toggleSeam(): void {
+    if (this.isDrawingSeam) {
+      this.interactionSvc.cancelSeam();
+    } else {
+      this.interactionSvc.startSeam();
+    }
+  }
+
+  restoreSession(): void {
+    if (!this.recoveredDrawing) return;
+    this.stateSvc.loadDrawing(this.recoveredDrawing.shapes, this.recoveredDrawing.settings);
+    this.recoveredDrawing = null;
+  }
+
+  discardSession(): void {
+    // Only drop the stored snapshot if nothing new has replaced it yet
+    if (this.stateSvc.getState().shapes.length === 0) {
+      this.autosaveSvc.clear();
+    }
+    this.recoveredDrawing = null;
+  }
+
+  exportDrawing(): void {
+    const json = this.documentSvc.serialize(this.stateSvc.getState());
+    this.downloadFile(json, 'dibujo.json', 'application/json');
+  }
+
+  exportSvg(withAnnotations: boolean): void {
+    const svg = this.svgExportSvc.exportSvg(this.stateSvc.getState(), {
+      dimensions: withAnnotations,
+      angles: withAnnotations,
+    });
+    this.downloadFile(svg, 'dibujo.svg', 'image/svg+xml');
+  }
+
+  exportDxf(): void {
+    const dxf = this.dxfExportSvc.exportDxf(this.stateSvc.getState());
+    this.downloadFile(dxf, 'dibujo.dxf', 'application/dxf');
+  }
+
+  // A file that can't be opened is reported under the button that opened it
+  importDrawing(input: HTMLInputElement, openButton: HTMLElement): void {
+    const file = input.files?.[0];
+    // Reset so selecting the same file again still triggers (change)
+    input.value = '';
+    if (!file) return;
+
+    file.text().then(json => {
+      try {
+        const doc = this.documentSvc.parse(json);
+        this.stateSvc.loadDrawing(doc.shapes, doc.settings);
+      } catch (error) {
+        if (!(error instanceof DrawingDocumentError)) throw error;
+        const box = openButton.getBoundingClientRect();
+        this.noticeSvc.show({
+          message: `No se pudo abrir "${file.name}": ${error.message}`,
+          anchor: { x: box.left + box.width / 2, y: box.bottom },
+        });
+      }
+    });
+  }
+
+  private downloadFile(content: string, fileName: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { Subscription, debounceTime, distinctUntilChanged, map, skip, tap } from 'rxjs';
+import { DrawingDocument, DrawingDocumentService } from './drawing-document.service';
+import { DrawingStateService } from './drawing-state.service';
+
+const AUTOSAVE_KEY = 'drawing-angular.autosave';
+const AUTOSAVE_DEBOUNCE_MS = 500;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AutosaveService implements OnDestroy {
+  private stateSubscription: Subscription | undefined;
+  private hasPendingChanges = false;
+  private readonly saveNow = () => this.save();
+
+  constructor(
+    private stateSvc: DrawingStateService,
+    private documentSvc: DrawingDocumentService
+  ) { }
+
+  // Returns the snapshot left by the previous session, if it holds anything worth restoring
+  public getRecoverableDrawing(): DrawingDocument | null {
+    const json = this.read();
+    if (!json) return null;
+
+    try {
+      const doc = this.documentSvc.parse(json);
+      return doc.shapes.length > 0 ? doc : null;
+    } catch {
+      // An unreadable snapshot can't be restored, so it isn't worth keeping
+      this.clear();
+      return null;
+    }
+  }
+
+  public start(): void {
+    if (this.stateSubscription) return;
+
+    // Only what the document stores counts (not selection), and the initial empty state is
+    // skipped so the previous session survives until something is actually changed
+    this.stateSubscription = this.stateSvc.state$
+      .pipe(
+        map(state => ({ shapes: state.shapes, settings: state.settings })),
+        distinctUntilChanged((a, b) => a.shapes === b.shapes && a.settings === b.settings),
+        skip(1),
+        tap(() => this.hasPendingChanges = true),
+        debounceTime(AUTOSAVE_DEBOUNCE_MS)
+      )
+      .subscribe(() => this.save());
+
+    // Flush immediately when the tab goes away, the debounce may not have fired yet
+    window.addEventListener('pagehide', this.saveNow);
+  }
+
+  public clear(): void {
+    try {
+      localStorage.removeItem(AUTOSAVE_KEY);
+    } catch {
+      // Storage is disabled, so there is nothing to clear
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+    window.removeEventListener('pagehide', this.saveNow);
+  }
+
+  private save(): void {
+    if (!this.hasPendingChanges) return;
+
+    try {
+      localStorage.setItem(AUTOSAVE_KEY, this.documentSvc.serialize(this.stateSvc.getState()));
+      this.hasPendingChanges = false;
+    } catch {
+      // Storage may be full or disabled (private mode); autosave is best effort
+    }
+  }
+
+  private read(): string | null {
+    try {
+      return localStorage.getItem(AUTOSAVE_KEY);
+    } catch {
+      return null;
+    }
+  }
+}
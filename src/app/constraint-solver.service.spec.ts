@@ -0,0 +1,84 @@
+import { TestBed } from '@angular/core/testing';
+import { ConstraintSolverService } from './constraint-solver.service';
+import { DrawingStateService, ShapeConstraint, ShapeEditError } from './drawing-state.service';
+
+describe('ConstraintSolverService', () => {
+  let service: ConstraintSolverService;
+
+  // A square with its top right corner pulled out of place
+  const skewed = [{ x: 0, y: 0 }, { x: 110, y: 15 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+  const constraints: ShapeConstraint[] = [
+    { type: 'length', segment: 0, length: 80 },
+    { type: 'horizontal', segment: 0 },
+    { type: 'vertical', segment: 1 },
+    { type: 'parallel', segments: [0, 2] },
+    { type: 'perpendicular', segments: [0, 1] },
+    { type: 'equal', segments: [0, 3] },
+    { type: 'angle', vertex: 1, angle: 60 },
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ConstraintSolverService);
+  });
+
+  constraints.forEach(constraint => {
+    it(`should satisfy a ${constraint.type} constraint without moving pinned vertices`, () => {
+      expect(service.isSatisfied(constraint, skewed)).toBeFalse();
+      const solved = service.solve(skewed, [constraint], [0]);
+      expect(solved).not.toBeNull();
+      expect(service.isSatisfied(constraint, solved!)).toBeTrue();
+      expect(solved![0]).toEqual(skewed[0]);
+    });
+  });
+
+  it('should satisfy several constraints at once', () => {
+    const rectangle: ShapeConstraint[] = [
+      { type: 'horizontal', segment: 0 },
+      { type: 'vertical', segment: 1 },
+      { type: 'horizontal', segment: 2 },
+      { type: 'vertical', segment: 3 },
+      { type: 'length', segment: 0, length: 120 },
+    ];
+    const solved = service.solve(skewed, rectangle, [0]);
+    expect(solved).not.toBeNull();
+    rectangle.forEach(c => expect(service.isSatisfied(c, solved!)).toBeTrue());
+    expect(solved![1].x).toBeCloseTo(120, 3);
+  });
+
+  it('should return null when the pinned vertices break a constraint', () => {
+    const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    expect(service.solve(square, [{ type: 'length', segment: 0, length: 50 }], [0, 1])).toBeNull();
+  });
+
+  it('should return null when the constraints contradict each other', () => {
+    const triangle = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 50, y: 80 }];
+    const lengths: ShapeConstraint[] = [
+      { type: 'length', segment: 0, length: 100 },
+      { type: 'length', segment: 1, length: 20 },
+      { type: 'length', segment: 2, length: 20 },
+    ];
+    expect(service.solve(triangle, lengths)).toBeNull();
+  });
+
+  it('should make the state refuse a drag the constraints can\'t follow', () => {
+    const state = TestBed.inject(DrawingStateService);
+    state.loadDrawing([{
+      id: 'shape_1',
+      vertices: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }],
+      cornerRadii: [0, 0, 0, 0],
+      segmentDepths: [0, 0, 0, 0],
+      constraints: [
+        { type: 'horizontal', segment: 0 },
+        { type: 'vertical', segment: 1 },
+        { type: 'horizontal', segment: 2 },
+        { type: 'vertical', segment: 3 },
+      ],
+    }], state.getState().settings);
+
+    // Dragging a corner onto the opposite side would fold the rectangle flat
+    expect(() => state.updateVertexPosition('shape_1', 1, { x: 0, y: 100 })).toThrowError(ShapeEditError);
+    expect(state.getState().shapes[0].vertices[1]).toEqual({ x: 100, y: 0 });
+  });
+});
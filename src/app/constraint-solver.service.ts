@@ -0,0 +1,214 @@
+import { Injectable } from '@angular/core';
+import { ShapeConstraint } from './drawing-state.service';
+
+type Point = { x: number; y: number };
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-4; // Largest residual accepted, in pixels
+const CONVERGED = 1e-9; // Residual at which iterating stops
+const FINITE_DIFFERENCE = 1e-6;
+const MIN_SEGMENT_LENGTH = 0.01;
+
+// Keeps a shape's constraints satisfied after an edit. Every constraint is written as a
+// residual in pixels (zero when it holds) and the free vertex coordinates are adjusted
+// by damped least squares (Levenberg-Marquardt), which starting from the edited outline
+// converges to a nearby one that satisfies them all. Pinned vertices never move.
+@Injectable({
+  providedIn: 'root'
+})
+export class ConstraintSolverService {
+  constructor() { }
+
+  // Returns the adjusted vertices, or null if the constraints can't all be met with
+  // the pinned vertices where they are, or only by collapsing a segment to a point
+  public solve(vertices: Point[], constraints: ShapeConstraint[], pinned: number[] = []): Point[] | null {
+    const valid = constraints.filter(c => this.isValid(c, vertices.length));
+    if (valid.length === 0) return vertices;
+
+    const winding = this.getWinding(vertices);
+    // Unknowns are the x and y of every free vertex, flattened
+    const unknowns: { index: number; axis: 'x' | 'y' }[] = [];
+    vertices.forEach((_, i) => {
+      if (!pinned.includes(i)) unknowns.push({ index: i, axis: 'x' }, { index: i, axis: 'y' });
+    });
+
+    let points = vertices.map(p => ({ x: p.x, y: p.y }));
+    let residuals = this.residuals(valid, points, winding);
+    let cost = this.sumOfSquares(residuals);
+    let damping = 1e-3;
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      if (this.maxAbs(residuals) < CONVERGED || unknowns.length === 0) break;
+
+      const jacobian = this.jacobian(valid, points, winding, unknowns, residuals);
+      const gradient = unknowns.map((_, j) => residuals.reduce((sum, r, i) => sum + jacobian[i][j] * r, 0));
+      const normal = unknowns.map((_, j) =>
+        unknowns.map((_, k) => residuals.reduce((sum, _r, i) => sum + jacobian[i][j] * jacobian[i][k], 0))
+      );
+
+      // Raise the damping until a step lowers the cost
+      let improved = false;
+      while (damping < 1e12) {
+        const system = normal.map((row, j) => row.map((value, k) => j === k ? value + damping * (1 + value) : value));
+        const step = this.solveLinear(system, gradient.map(g => -g));
+        if (step) {
+          const candidate = points.map(p => ({ ...p }));
+          unknowns.forEach((u, j) => candidate[u.index][u.axis] += step[j]);
+          const candidateResiduals = this.residuals(valid, candidate, winding);
+          const candidateCost = this.sumOfSquares(candidateResiduals);
+          if (candidateCost < cost) {
+            points = candidate;
+            residuals = candidateResiduals;
+            cost = candidateCost;
+            damping = Math.max(damping / 10, 1e-12);
+            improved = true;
+            break;
+          }
+        }
+        damping *= 10;
+      }
+      if (!improved) break;
+    }
+    if (this.maxAbs(residuals) >= TOLERANCE) return null;
+    const collapsed = points.some((_, i) =>
+      this.segmentLength(points, i) < MIN_SEGMENT_LENGTH && this.segmentLength(vertices, i) >= MIN_SEGMENT_LENGTH
+    );
+    return collapsed ? null : points;
+  }
+
+  public isSatisfied(constraint: ShapeConstraint, vertices: Point[]): boolean {
+    return Math.abs(this.residual(constraint, vertices, this.getWinding(vertices))) < TOLERANCE;
+  }
+
+  private isValid(constraint: ShapeConstraint, numVertices: number): boolean {
+    const inRange = (i: number) => Number.isInteger(i) && i >= 0 && i < numVertices;
+    switch (constraint.type) {
+      case 'angle':
+        return inRange(constraint.vertex);
+      case 'parallel':
+      case 'perpendicular':
+      case 'equal':
+        return constraint.segments.every(inRange) && constraint.segments[0] !== constraint.segments[1];
+      default:
+        return inRange(constraint.segment);
+    }
+  }
+
+  private residuals(constraints: ShapeConstraint[], points: Point[], winding: number): number[] {
+    return constraints.map(c => this.residual(c, points, winding));
+  }
+
+  private residual(constraint: ShapeConstraint, points: Point[], winding: number): number {
+    switch (constraint.type) {
+      case 'length':
+        return this.segmentLength(points, constraint.segment) - constraint.length;
+      case 'horizontal': {
+        const [a, b] = this.segmentEnds(points, constraint.segment);
+        return points[b].y - points[a].y;
+      }
+      case 'vertical': {
+        const [a, b] = this.segmentEnds(points, constraint.segment);
+        return points[b].x - points[a].x;
+      }
+      case 'parallel':
+      case 'perpendicular': {
+        // Sine (parallel) or cosine (perpendicular) of the angle between the segments,
+        // scaled by their mean length
+        const u = this.segmentVector(points, constraint.segments[0]);
+        const v = this.segmentVector(points, constraint.segments[1]);
+        const lu = Math.hypot(u.x, u.y);
+        const lv = Math.hypot(v.x, v.y);
+        if (lu === 0 || lv === 0) return 0;
+        const value = constraint.type === 'parallel' ? u.x * v.y - u.y * v.x : u.x * v.x + u.y * v.y;
+        return value / (lu * lv) * (lu + lv) / 2;
+      }
+      case 'angle': {
+        const n = points.length;
+        const p = points[constraint.vertex];
+        const a = points[(constraint.vertex - 1 + n) % n];
+        const b = points[(constraint.vertex + 1) % n];
+        const va = { x: a.x - p.x, y: a.y - p.y };
+        const vb = { x: b.x - p.x, y: b.y - p.y };
+        const signed = Math.atan2(va.x * vb.y - va.y * vb.x, va.x * vb.x + va.y * vb.y);
+        const full = 2 * Math.PI;
+        const current = ((winding * signed) % full + full) % full;
+        let error = current - constraint.angle * (Math.PI / 180);
+        error -= Math.round(error / full) * full;
+        return error * (Math.hypot(va.x, va.y) + Math.hypot(vb.x, vb.y)) / 2;
+      }
+      case 'equal':
+        return this.segmentLength(points, constraint.segments[0]) - this.segmentLength(points, constraint.segments[1]);
+    }
+  }
+
+  private jacobian(
+    constraints: ShapeConstraint[], points: Point[], winding: number,
+    unknowns: { index: number; axis: 'x' | 'y' }[], residuals: number[]
+  ): number[][] {
+    const columns = unknowns.map(u => {
+      const shifted = points.map(p => ({ ...p }));
+      shifted[u.index][u.axis] += FINITE_DIFFERENCE;
+      const shiftedResiduals = this.residuals(constraints, shifted, winding);
+      return shiftedResiduals.map((r, i) => (r - residuals[i]) / FINITE_DIFFERENCE);
+    });
+    return residuals.map((_, i) => columns.map(column => column[i]));
+  }
+
+  // Gaussian elimination with partial pivoting; null if the system is singular
+  private solveLinear(matrix: number[][], rhs: number[]): number[] | null {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < n; row++) {
+        if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+      }
+      if (Math.abs(a[pivot][col]) < 1e-12) return null;
+      [a[col], a[pivot]] = [a[pivot], a[col]];
+      for (let row = col + 1; row < n; row++) {
+        const factor = a[row][col] / a[col][col];
+        for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+      }
+    }
+    const x = Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+      let sum = a[row][n];
+      for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+      x[row] = sum / a[row][row];
+    }
+    return x;
+  }
+
+  private segmentEnds(points: Point[], segment: number): [number, number] {
+    return [segment, (segment + 1) % points.length];
+  }
+
+  private segmentVector(points: Point[], segment: number): Point {
+    const [a, b] = this.segmentEnds(points, segment);
+    return { x: points[b].x - points[a].x, y: points[b].y - points[a].y };
+  }
+
+  private segmentLength(points: Point[], segment: number): number {
+    const v = this.segmentVector(points, segment);
+    return Math.hypot(v.x, v.y);
+  }
+
+  private sumOfSquares(values: number[]): number {
+    return values.reduce((sum, v) => sum + v * v, 0);
+  }
+
+  private maxAbs(values: number[]): number {
+    return values.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+  }
+
+  // Same convention as GeometryService.rotateCorner: the sign that turns the previous
+  // edge onto the next one by the interior angle
+  private getWinding(points: Point[]): number {
+    let area = 0;
+    points.forEach((p, i) => {
+      const q = points[(i + 1) % points.length];
+      area += p.x * q.y - q.x * p.y;
+    });
+    return area > 0 ? -1 : 1;
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+export interface ContextMenuItem {
+  label: string;
+  action: () => void;
+  disabled?: boolean;
+  // Shown ticked, for options that are currently in effect
+  checked?: boolean;
+}
+
+export interface ContextMenu {
+  // Page coordinates the menu opens at
+  anchor: { x: number; y: number };
+  items: ContextMenuItem[];
+}
+
+// Opens the right-click menu shown for handles on the canvas
+@Injectable({
+  providedIn: 'root'
+})
+export class ContextMenuService {
+  private readonly _menu = new BehaviorSubject<ContextMenu | null>(null);
+
+  readonly menu$ = this._menu.asObservable();
+
+  open(menu: ContextMenu): void {
+    this._menu.next(menu);
+  }
+
+  close(): void {
+    this._menu.next(null);
+  }
+}
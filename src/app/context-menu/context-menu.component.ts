@@ -0,0 +1,48 @@
+import { Component, ElementRef, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ContextMenu, ContextMenuItem, ContextMenuService } from '../context-menu.service';
+
+@Component({
+  selector: 'app-context-menu',
+  standalone: true,
+  templateUrl: './context-menu.component.html',
+  styleUrls: ['./context-menu.component.scss'],
+})
+export class ContextMenuComponent implements OnInit, OnDestroy {
+  menu: ContextMenu | null = null;
+
+  private menuSubscription: Subscription | undefined;
+
+  constructor(
+    private menuSvc: ContextMenuService,
+    private elementRef: ElementRef<HTMLElement>
+  ) {}
+
+  ngOnInit(): void {
+    this.menuSubscription = this.menuSvc.menu$.subscribe(menu => this.menu = menu);
+  }
+
+  ngOnDestroy(): void {
+    this.menuSubscription?.unsubscribe();
+  }
+
+  // Clicking anywhere else or pressing Escape dismisses the menu
+  @HostListener('document:pointerdown', ['$event'])
+  onDocumentPointerDown(event: PointerEvent): void {
+    if (this.menu && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.menuSvc.close();
+    }
+  }
+
+  @HostListener('document:keydown.escape')
+  onEscape(): void {
+    if (this.menu) {
+      this.menuSvc.close();
+    }
+  }
+
+  run(item: ContextMenuItem): void {
+    this.menuSvc.close();
+    item.action();
+  }
+}
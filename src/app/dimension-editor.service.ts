@@ -0,0 +1,38 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+export interface DimensionEdit {
+  label: string;
+  value: string;
+  unit: string;
+  // Page coordinates the editor is anchored to
+  anchor: { x: number; y: number };
+  // Options shown as buttons under the input, e.g. which edge turns for an angle
+  choice?: {
+    label: string;
+    options: { value: string; label: string }[];
+    value: string;
+  };
+  // Applies the typed text (and the chosen option); returns an error message to show instead of closing
+  apply: (text: string, choice?: string) => string | null;
+  // Tab / Shift+Tab: after applying, edit the next or previous corner or segment
+  navigate?: (direction: 1 | -1) => void;
+}
+
+// Opens the inline editor used for every typed dimension (lengths, radii, depths, angles)
+@Injectable({
+  providedIn: 'root'
+})
+export class DimensionEditorService {
+  private readonly _edit = new BehaviorSubject<DimensionEdit | null>(null);
+
+  readonly edit$ = this._edit.asObservable();
+
+  open(edit: DimensionEdit): void {
+    this._edit.next(edit);
+  }
+
+  close(): void {
+    this._edit.next(null);
+  }
+}
@@ -0,0 +1,89 @@
+import { Component, ElementRef, HostListener, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { DimensionEdit, DimensionEditorService } from '../dimension-editor.service';
+
+@Component({
+  selector: 'app-dimension-editor',
+  standalone: true,
+  templateUrl: './dimension-editor.component.html',
+  styleUrls: ['./dimension-editor.component.scss'],
+})
+export class DimensionEditorComponent implements OnInit, OnDestroy {
+  @ViewChild('valueInput') valueInput: ElementRef<HTMLInputElement> | undefined;
+
+  edit: DimensionEdit | null = null;
+  choice: string | undefined;
+  error: string | null = null;
+
+  private editSubscription: Subscription | undefined;
+
+  constructor(
+    private editorSvc: DimensionEditorService,
+    private elementRef: ElementRef<HTMLElement>
+  ) {}
+
+  ngOnInit(): void {
+    this.editSubscription = this.editorSvc.edit$.subscribe(edit => {
+      this.edit = edit;
+      this.choice = edit?.choice?.value;
+      this.error = null;
+      if (edit) {
+        // Wait for the input to be (re)rendered before focusing it
+        setTimeout(() => {
+          this.valueInput?.nativeElement.focus();
+          this.valueInput?.nativeElement.select();
+        });
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.editSubscription?.unsubscribe();
+  }
+
+  // Tapping or clicking anywhere else dismisses the editor
+  @HostListener('document:pointerdown', ['$event'])
+  onDocumentPointerDown(event: PointerEvent): void {
+    if (this.edit && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.cancel();
+    }
+  }
+
+  onKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.submit();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      this.cancel();
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      this.submit(event.shiftKey ? -1 : 1);
+    }
+  }
+
+  submit(direction?: 1 | -1): void {
+    const edit = this.edit;
+    const input = this.valueInput?.nativeElement;
+    if (!edit || !input) return;
+
+    // Leaving the value as it was shouldn't add an undo step
+    if (input.value.trim() !== edit.value) {
+      const error = edit.apply(input.value, this.choice);
+      if (error) {
+        this.error = error;
+        input.select();
+        return;
+      }
+    }
+
+    this.editorSvc.close();
+    if (direction && edit.navigate) {
+      edit.navigate(direction);
+    }
+  }
+
+  cancel(): void {
+    this.editorSvc.close();
+  }
+}
@@ -0,0 +1,117 @@
+import { TestBed } from '@angular/core/testing';
+import { DRAWING_DOCUMENT_VERSION, DrawingDocumentError, DrawingDocumentService } from './drawing-document.service';
+import { DEFAULT_SETTINGS, Shape } from './drawing-state.service';
+
+describe('DrawingDocumentService', () => {
+  let service: DrawingDocumentService;
+
+  const square: Shape = {
+    id: 'shape_1',
+    vertices: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }],
+    cornerRadii: [0, 10, 0, 0],
+    segmentDepths: [0, 0, 20, 0],
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DrawingDocumentService);
+  });
+
+  it('should round-trip shapes through JSON', () => {
+    const json = service.serialize({ shapes: [square], selectedShapeId: null, selectedShapeIds: [], settings: DEFAULT_SETTINGS });
+    const doc = service.parse(json);
+    expect(doc.version).toBe(DRAWING_DOCUMENT_VERSION);
+    expect(doc.shapes).toEqual([square]);
+  });
+
+  it('should migrate version 1 documents to the current version', () => {
+    const json = JSON.stringify({ format: 'drawing-angular', version: 1, metadata: {}, shapes: [square] });
+    const doc = service.parse(json);
+    expect(doc.version).toBe(DRAWING_DOCUMENT_VERSION);
+    expect(doc.settings).toEqual(DEFAULT_SETTINGS);
+    expect(doc.shapes).toEqual([square]);
+  });
+
+  it('should give version 2 documents the default grid', () => {
+    const settings = { unit: 'cm', precision: 1, mmPerPixel: 2 };
+    const json = JSON.stringify({ format: 'drawing-angular', version: 2, metadata: {}, settings, shapes: [square] });
+    const doc = service.parse(json);
+    expect(doc.settings).toEqual({
+      ...DEFAULT_SETTINGS,
+      unit: 'cm',
+      precision: 1,
+      mmPerPixel: 2,
+    });
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => service.parse('{')).toThrowError(DrawingDocumentError);
+  });
+
+  it('should reject documents from a newer version', () => {
+    const json = JSON.stringify({ format: 'drawing-angular', version: DRAWING_DOCUMENT_VERSION + 1, shapes: [] });
+    expect(() => service.parse(json)).toThrowError(DrawingDocumentError, /versión/);
+  });
+
+  it('should point at the malformed field', () => {
+    const json = JSON.stringify({
+      format: 'drawing-angular',
+      version: DRAWING_DOCUMENT_VERSION,
+      settings: DEFAULT_SETTINGS,
+      shapes: [{ ...square, cornerRadii: [0, 0] }],
+    });
+    expect(() => service.parse(json)).toThrowError(DrawingDocumentError, /shapes\[0\]\.cornerRadii/);
+  });
+
+  it('should keep valid constraints and reject ones that point past the outline', () => {
+    const constrained: Shape = { ...square, constraints: [{ type: 'horizontal', segment: 0 }, { type: 'equal', segments: [0, 1] }] };
+    const json = service.serialize({ shapes: [constrained], selectedShapeId: null, selectedShapeIds: [], settings: DEFAULT_SETTINGS });
+    expect(service.parse(json).shapes).toEqual([constrained]);
+
+    const broken = json.replace('"segment": 0', '"segment": 4');
+    expect(() => service.parse(broken)).toThrowError(DrawingDocumentError, /shapes\[0\]\.constraints\[0\]/);
+  });
+
+  it('should keep valid cutouts and reject unknown kinds', () => {
+    const withSink: Shape = {
+      ...square,
+      cutouts: [{ id: 'sink', kind: 'rounded', width: 40, height: 30, cornerRadius: 5, edges: [0, 1], distances: [50, 50] }],
+    };
+    const json = service.serialize({ shapes: [withSink], selectedShapeId: null, selectedShapeIds: [], settings: DEFAULT_SETTINGS });
+    expect(service.parse(json).shapes).toEqual([withSink]);
+
+    const broken = json.replace('"rounded"', '"hexagon"');
+    expect(() => service.parse(broken)).toThrowError(DrawingDocumentError, /shapes\[0\]\.cutouts\[0\]\.kind/);
+  });
+
+  it('should keep edge finishes and require a backsplash height', () => {
+    const finished: Shape = {
+      ...square,
+      edgeFinishes: [{ type: 'backsplash', backsplashHeight: 100 }, { type: 'wall' }, null, { type: 'bullnose' }],
+    };
+    const json = service.serialize({ shapes: [finished], selectedShapeId: null, selectedShapeIds: [], settings: DEFAULT_SETTINGS });
+    expect(service.parse(json).shapes).toEqual([finished]);
+
+    const broken = json.replace('"backsplashHeight": 100', '"backsplashHeight": 0');
+    expect(() => service.parse(broken)).toThrowError(DrawingDocumentError, /shapes\[0\]\.edgeFinishes\[0\]/);
+  });
+
+  it('should keep seams and require their joint id', () => {
+    const seamed: Shape = {
+      ...square,
+      edgeFinishes: [null, { type: 'seam', jointId: 'joint_1' }, null, null],
+    };
+    const json = service.serialize({ shapes: [seamed], selectedShapeId: null, selectedShapeIds: [], settings: DEFAULT_SETTINGS });
+    expect(service.parse(json).shapes).toEqual([seamed]);
+
+    const broken = json.replace('"jointId": "joint_1"', '"jointId": ""');
+    expect(() => service.parse(broken)).toThrowError(DrawingDocumentError, /shapes\[0\]\.edgeFinishes\[1\]\.jointId/);
+  });
+
+  it('should read version 5 documents without seams unchanged', () => {
+    const json = JSON.stringify({ format: 'drawing-angular', version: 5, metadata: {}, shapes: [square], settings: DEFAULT_SETTINGS });
+    const doc = service.parse(json);
+    expect(doc.version).toBe(DRAWING_DOCUMENT_VERSION);
+    expect(doc.shapes).toEqual([square]);
+  });
+});
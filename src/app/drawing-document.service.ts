@@ -0,0 +1,391 @@
+import { Injectable } from '@angular/core';
+import { Cutout, CutoutKind, DEFAULT_SETTINGS, DrawingSettings, DrawingState, EDGE_TYPE_LABELS, EdgeFinish, EdgeType, LengthUnit, PipeDefinition, Shape, ShapeConstraint } from './drawing-state.service';
+
+export const DRAWING_DOCUMENT_FORMAT = 'drawing-angular';
+export const DRAWING_DOCUMENT_VERSION = 6;
+
+const LENGTH_UNITS: LengthUnit[] = ['mm', 'cm', 'm', 'in', 'ft-in'];
+const CUTOUT_KINDS: CutoutKind[] = ['rectangle', 'rounded', 'oval', 'circle'];
+const EDGE_TYPES = Object.keys(EDGE_TYPE_LABELS) as EdgeType[];
+
+export interface DrawingMetadata {
+  name?: string;
+  savedAt?: string;
+}
+
+export interface DrawingDocument {
+  format: typeof DRAWING_DOCUMENT_FORMAT;
+  version: number;
+  metadata: DrawingMetadata;
+  settings: DrawingSettings;
+  shapes: Shape[];
+}
+
+export class DrawingDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DrawingDocumentError';
+  }
+}
+
+// A parsed document before validation; nothing about its fields is known yet
+type RawDocument = { [key: string]: unknown };
+
+// Each migration upgrades a raw document from version N to N + 1.
+// Register one here whenever DRAWING_DOCUMENT_VERSION is bumped.
+const MIGRATIONS: { [fromVersion: number]: (doc: RawDocument) => RawDocument } = {
+  // v2 adds document units and scale; v1 drawings were plain pixels, i.e. 1px = 1mm
+  1: doc => ({ ...doc, settings: DEFAULT_SETTINGS }),
+  // v3 adds the grid; older drawings get the default one
+  2: doc => ({
+    ...doc,
+    settings: {
+      ...(typeof doc['settings'] === 'object' ? doc['settings'] : {}),
+      showGrid: DEFAULT_SETTINGS.showGrid,
+      snapToGrid: DEFAULT_SETTINGS.snapToGrid,
+      gridSpacingMm: DEFAULT_SETTINGS.gridSpacingMm,
+    },
+  }),
+  // v4 adds cutouts; older drawings have none, so only the version changes
+  3: doc => doc,
+  // v5 adds edge finishes; older drawings leave every edge unspecified
+  4: doc => doc,
+  // v6 adds seams; older drawings have none, so only the version changes
+  5: doc => doc,
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DrawingDocumentService {
+  constructor() { }
+
+  public createDocument(state: DrawingState, metadata: DrawingMetadata = {}): DrawingDocument {
+    return {
+      format: DRAWING_DOCUMENT_FORMAT,
+      version: DRAWING_DOCUMENT_VERSION,
+      metadata: { ...metadata, savedAt: new Date().toISOString() },
+      settings: state.settings,
+      shapes: state.shapes,
+    };
+  }
+
+  public serialize(state: DrawingState, metadata: DrawingMetadata = {}): string {
+    return JSON.stringify(this.createDocument(state, metadata), null, 2);
+  }
+
+  public parse(json: string): DrawingDocument {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new DrawingDocumentError('El archivo no contiene JSON válido.');
+    }
+    return this.validate(this.migrate(raw));
+  }
+
+  private migrate(raw: unknown): RawDocument {
+    if (!this.isObject(raw) || raw['format'] !== DRAWING_DOCUMENT_FORMAT) {
+      throw new DrawingDocumentError('El archivo no es un dibujo de esta aplicación.');
+    }
+
+    let version = raw['version'];
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new DrawingDocumentError('La versión del documento no es válida.');
+    }
+    if (version > DRAWING_DOCUMENT_VERSION) {
+      throw new DrawingDocumentError(
+        `El documento usa la versión ${version}, pero esta aplicación solo admite hasta la versión ${DRAWING_DOCUMENT_VERSION}.`
+      );
+    }
+
+    let doc: RawDocument = raw;
+    while (version < DRAWING_DOCUMENT_VERSION) {
+      const migration = MIGRATIONS[version];
+      if (!migration) {
+        throw new DrawingDocumentError(`No hay migración disponible desde la versión ${version}.`);
+      }
+      doc = { ...migration(doc), version: version + 1 };
+      version++;
+    }
+    return doc;
+  }
+
+  private validate(doc: RawDocument): DrawingDocument {
+    const metadata = this.validateMetadata(doc['metadata'] ?? {});
+    const settings = this.validateSettings(doc['settings']);
+    const rawShapes = doc['shapes'];
+    if (!Array.isArray(rawShapes)) {
+      throw new DrawingDocumentError('"shapes" debe ser una lista.');
+    }
+
+    const ids = new Set<string>();
+    const shapes = rawShapes.map((shape: unknown, i: number) => {
+      const validShape = this.validateShape(shape, `shapes[${i}]`);
+      if (ids.has(validShape.id)) {
+        throw new DrawingDocumentError(`shapes[${i}].id "${validShape.id}" está repetido.`);
+      }
+      ids.add(validShape.id);
+      return validShape;
+    });
+
+    return {
+      format: DRAWING_DOCUMENT_FORMAT,
+      version: DRAWING_DOCUMENT_VERSION,
+      metadata,
+      settings,
+      shapes,
+    };
+  }
+
+  private validateMetadata(metadata: unknown): DrawingMetadata {
+    if (!this.isObject(metadata)) {
+      throw new DrawingDocumentError('"metadata" debe ser un objeto.');
+    }
+    const { name, savedAt } = metadata;
+    if ((name !== undefined && typeof name !== 'string') || (savedAt !== undefined && typeof savedAt !== 'string')) {
+      throw new DrawingDocumentError('metadata.name y metadata.savedAt deben ser textos.');
+    }
+
+    return {
+      ...(name !== undefined && { name }),
+      ...(savedAt !== undefined && { savedAt }),
+    };
+  }
+
+  private validateSettings(settings: unknown): DrawingSettings {
+    if (!this.isObject(settings)) {
+      throw new DrawingDocumentError('"settings" debe ser un objeto.');
+    }
+
+    const unit = settings['unit'];
+    if (!LENGTH_UNITS.includes(unit as LengthUnit)) {
+      throw new DrawingDocumentError(`settings.unit debe ser una de: ${LENGTH_UNITS.join(', ')}.`);
+    }
+    const precision = settings['precision'];
+    if (typeof precision !== 'number' || !Number.isInteger(precision) || precision < 0 || precision > 6) {
+      throw new DrawingDocumentError('settings.precision debe ser un entero entre 0 y 6.');
+    }
+    const mmPerPixel = settings['mmPerPixel'];
+    if (!this.isFiniteNumber(mmPerPixel) || mmPerPixel <= 0) {
+      throw new DrawingDocumentError('settings.mmPerPixel debe ser un número positivo.');
+    }
+    const showGrid = settings['showGrid'];
+    const snapToGrid = settings['snapToGrid'];
+    if (typeof showGrid !== 'boolean' || typeof snapToGrid !== 'boolean') {
+      throw new DrawingDocumentError('settings.showGrid y settings.snapToGrid deben ser true o false.');
+    }
+    const gridSpacingMm = settings['gridSpacingMm'];
+    if (!this.isFiniteNumber(gridSpacingMm) || gridSpacingMm <= 0) {
+      throw new DrawingDocumentError('settings.gridSpacingMm debe ser un número positivo.');
+    }
+
+    return { unit: unit as LengthUnit, precision, mmPerPixel, showGrid, snapToGrid, gridSpacingMm };
+  }
+
+  private validateShape(shape: unknown, path: string): Shape {
+    if (!this.isObject(shape)) {
+      throw new DrawingDocumentError(`${path} debe ser un objeto.`);
+    }
+
+    const id = shape['id'];
+    if (typeof id !== 'string' || id.length === 0) {
+      throw new DrawingDocumentError(`${path}.id debe ser un texto no vacío.`);
+    }
+
+    const vertices = shape['vertices'];
+    if (!Array.isArray(vertices) || vertices.length < 3) {
+      throw new DrawingDocumentError(`${path}.vertices debe ser una lista de al menos 3 puntos.`);
+    }
+    vertices.forEach((vertex, i) => this.validatePoint(vertex, `${path}.vertices[${i}]`));
+
+    const cornerRadii = this.validateNumberList(shape['cornerRadii'], vertices.length, `${path}.cornerRadii`);
+    if (cornerRadii.some(radius => radius < 0)) {
+      throw new DrawingDocumentError(`${path}.cornerRadii no puede contener radios negativos.`);
+    }
+    const segmentDepths = this.validateNumberList(shape['segmentDepths'], vertices.length, `${path}.segmentDepths`);
+
+    const validShape: Shape = {
+      id,
+      vertices: vertices.map(v => ({ x: v.x, y: v.y })),
+      cornerRadii,
+      segmentDepths,
+    };
+    if (shape['pipe'] !== undefined) {
+      validShape.pipe = this.validatePipe(shape['pipe'], `${path}.pipe`);
+    }
+    if (shape['constraints'] !== undefined) {
+      validShape.constraints = this.validateConstraints(shape['constraints'], vertices.length, `${path}.constraints`);
+    }
+    if (shape['cutouts'] !== undefined) {
+      validShape.cutouts = this.validateCutouts(shape['cutouts'], vertices.length, `${path}.cutouts`);
+    }
+    if (shape['edgeFinishes'] !== undefined) {
+      validShape.edgeFinishes = this.validateEdgeFinishes(shape['edgeFinishes'], vertices.length, `${path}.edgeFinishes`);
+    }
+    return validShape;
+  }
+
+  private validatePipe(pipe: unknown, path: string): PipeDefinition {
+    if (!this.isObject(pipe)) {
+      throw new DrawingDocumentError(`${path} debe ser un objeto.`);
+    }
+
+    const centerline = pipe['centerline'];
+    if (!Array.isArray(centerline) || centerline.length < 2) {
+      throw new DrawingDocumentError(`${path}.centerline debe ser una lista de al menos 2 puntos.`);
+    }
+    centerline.forEach((point, i) => this.validatePoint(point, `${path}.centerline[${i}]`));
+
+    const legDepths = this.validateNumberList(pipe['legDepths'], centerline.length - 1, `${path}.legDepths`);
+    if (legDepths.some(depth => depth <= 0)) {
+      throw new DrawingDocumentError(`${path}.legDepths solo puede contener profundidades positivas.`);
+    }
+
+    return {
+      centerline: centerline.map(p => ({ x: p.x, y: p.y })),
+      legDepths,
+    };
+  }
+
+  private validateConstraints(constraints: unknown, numVertices: number, path: string): ShapeConstraint[] {
+    if (!Array.isArray(constraints)) {
+      throw new DrawingDocumentError(`${path} debe ser una lista.`);
+    }
+    const isIndex = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) < numVertices;
+
+    return constraints.map((c, i): ShapeConstraint => {
+      const itemPath = `${path}[${i}]`;
+      if (!this.isObject(c)) {
+        throw new DrawingDocumentError(`${itemPath} debe ser un objeto.`);
+      }
+      switch (c['type']) {
+        case 'length':
+          if (!isIndex(c['segment']) || !this.isFiniteNumber(c['length']) || c['length'] <= 0) {
+            throw new DrawingDocumentError(`${itemPath} necesita un "segment" válido y un "length" positivo.`);
+          }
+          return { type: 'length', segment: c['segment'] as number, length: c['length'] };
+        case 'horizontal':
+        case 'vertical':
+          if (!isIndex(c['segment'])) {
+            throw new DrawingDocumentError(`${itemPath}.segment debe ser el índice de un lado de la figura.`);
+          }
+          return { type: c['type'], segment: c['segment'] as number };
+        case 'parallel':
+        case 'perpendicular':
+        case 'equal': {
+          const segments = c['segments'];
+          if (!Array.isArray(segments) || segments.length !== 2 || !segments.every(isIndex) || segments[0] === segments[1]) {
+            throw new DrawingDocumentError(`${itemPath}.segments debe indicar dos lados distintos de la figura.`);
+          }
+          return { type: c['type'], segments: [segments[0], segments[1]] };
+        }
+        case 'angle':
+          if (!isIndex(c['vertex']) || !this.isFiniteNumber(c['angle']) || c['angle'] <= 0 || c['angle'] >= 360) {
+            throw new DrawingDocumentError(`${itemPath} necesita un "vertex" válido y un "angle" entre 0 y 360.`);
+          }
+          return { type: 'angle', vertex: c['vertex'] as number, angle: c['angle'] };
+        default:
+          throw new DrawingDocumentError(`${itemPath}.type no es un tipo de restricción conocido.`);
+      }
+    });
+  }
+
+  private validateCutouts(cutouts: unknown, numVertices: number, path: string): Cutout[] {
+    if (!Array.isArray(cutouts)) {
+      throw new DrawingDocumentError(`${path} debe ser una lista.`);
+    }
+    const isIndex = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) < numVertices;
+
+    const ids = new Set<string>();
+    return cutouts.map((c, i): Cutout => {
+      const itemPath = `${path}[${i}]`;
+      if (!this.isObject(c)) {
+        throw new DrawingDocumentError(`${itemPath} debe ser un objeto.`);
+      }
+      const id = c['id'];
+      if (typeof id !== 'string' || id.length === 0 || ids.has(id)) {
+        throw new DrawingDocumentError(`${itemPath}.id debe ser un texto no vacío y no repetido.`);
+      }
+      ids.add(id);
+      const kind = c['kind'];
+      if (!CUTOUT_KINDS.includes(kind as CutoutKind)) {
+        throw new DrawingDocumentError(`${itemPath}.kind debe ser uno de: ${CUTOUT_KINDS.join(', ')}.`);
+      }
+      const { width, height, cornerRadius } = c;
+      if (!this.isFiniteNumber(width) || width <= 0 || !this.isFiniteNumber(height) || height <= 0) {
+        throw new DrawingDocumentError(`${itemPath} necesita un "width" y un "height" positivos.`);
+      }
+      if (!this.isFiniteNumber(cornerRadius) || cornerRadius < 0) {
+        throw new DrawingDocumentError(`${itemPath}.cornerRadius debe ser un número no negativo.`);
+      }
+      const edges = c['edges'];
+      if (!Array.isArray(edges) || edges.length !== 2 || !edges.every(isIndex) || edges[0] === edges[1]) {
+        throw new DrawingDocumentError(`${itemPath}.edges debe indicar dos lados distintos de la figura.`);
+      }
+      const distances = this.validateNumberList(c['distances'], 2, `${itemPath}.distances`);
+
+      return {
+        id,
+        kind: kind as CutoutKind,
+        width,
+        height,
+        cornerRadius,
+        edges: [edges[0], edges[1]],
+        distances: [distances[0], distances[1]],
+      };
+    });
+  }
+
+  private validateEdgeFinishes(finishes: unknown, numVertices: number, path: string): (EdgeFinish | null)[] {
+    if (!Array.isArray(finishes) || finishes.length !== numVertices) {
+      throw new DrawingDocumentError(`${path} debe ser una lista con un canto por lado (${numVertices}).`);
+    }
+
+    return finishes.map((f, i): EdgeFinish | null => {
+      const itemPath = `${path}[${i}]`;
+      if (f === null) return null;
+      if (!this.isObject(f) || !EDGE_TYPES.includes(f['type'] as EdgeType)) {
+        throw new DrawingDocumentError(`${itemPath} debe ser null o tener un "type" de: ${EDGE_TYPES.join(', ')}.`);
+      }
+      if (f['type'] === 'seam') {
+        if (typeof f['jointId'] !== 'string' || f['jointId'].length === 0) {
+          throw new DrawingDocumentError(`${itemPath}.jointId debe ser un texto no vacío.`);
+        }
+        return { type: 'seam', jointId: f['jointId'] };
+      }
+      if (f['type'] !== 'backsplash') {
+        return { type: f['type'] as EdgeType };
+      }
+      const height = f['backsplashHeight'];
+      if (!this.isFiniteNumber(height) || height <= 0) {
+        throw new DrawingDocumentError(`${itemPath}.backsplashHeight debe ser un número positivo.`);
+      }
+      return { type: 'backsplash', backsplashHeight: height };
+    });
+  }
+
+  private validatePoint(point: unknown, path: string): void {
+    if (!this.isObject(point) || !this.isFiniteNumber(point['x']) || !this.isFiniteNumber(point['y'])) {
+      throw new DrawingDocumentError(`${path} debe tener coordenadas numéricas "x" e "y".`);
+    }
+  }
+
+  private validateNumberList(list: unknown, expectedLength: number, path: string): number[] {
+    if (!Array.isArray(list) || list.length !== expectedLength) {
+      throw new DrawingDocumentError(`${path} debe ser una lista de ${expectedLength} números.`);
+    }
+    if (!list.every(value => this.isFiniteNumber(value))) {
+      throw new DrawingDocumentError(`${path} solo puede contener números.`);
+    }
+    return [...list];
+  }
+
+  private isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+}
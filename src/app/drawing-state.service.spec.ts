@@ -0,0 +1,245 @@
+import { TestBed } from '@angular/core/testing';
+import { DrawingStateService, Shape, ShapeEditError } from './drawing-state.service';
+import { GeometryService } from './geometry.service';
+
+describe('DrawingStateService', () => {
+  let service: DrawingStateService;
+
+  const square: Shape = {
+    id: 'shape_1',
+    vertices: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }],
+    cornerRadii: [0, 0, 0, 0],
+    segmentDepths: [0, 0, 0, 0],
+  };
+
+  const firstX = () => service.getState().shapes[0].vertices[0].x;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DrawingStateService);
+    service.loadDrawing([square], service.getState().settings);
+  });
+
+  describe('history', () => {
+    it('should undo and redo each edit', () => {
+      service.moveShape('shape_1', 10, 0);
+      service.moveShape('shape_1', 10, 0);
+      service.undo();
+      expect(firstX()).toBe(10);
+      service.undo();
+      expect(firstX()).toBe(0);
+      service.redo();
+      expect(firstX()).toBe(10);
+    });
+
+    it('should drop the redo stack after a new edit', () => {
+      service.moveShape('shape_1', 10, 0);
+      service.undo();
+      expect(service.canRedo()).toBeTrue();
+      service.moveShape('shape_1', 0, 10);
+      expect(service.canRedo()).toBeFalse();
+    });
+
+    it('should undo a history group as one step', () => {
+      service.beginHistoryGroup();
+      service.moveShape('shape_1', 10, 0);
+      service.moveShape('shape_1', 10, 0);
+      service.moveShape('shape_1', 10, 0);
+      service.endHistoryGroup();
+      service.undo();
+      expect(firstX()).toBe(0);
+    });
+
+    it('should only close a nested group with the outermost end', () => {
+      service.beginHistoryGroup();
+      service.moveShape('shape_1', 10, 0);
+      service.beginHistoryGroup();
+      service.moveShape('shape_1', 10, 0);
+      service.endHistoryGroup();
+      service.moveShape('shape_1', 10, 0);
+      service.endHistoryGroup();
+      service.moveShape('shape_1', 10, 0);
+
+      service.undo();
+      expect(firstX()).toBe(30);
+      service.undo();
+      expect(firstX()).toBe(0);
+    });
+
+    it('should keep at most 100 steps', () => {
+      for (let i = 0; i < 150; i++) {
+        service.moveShape('shape_1', 1, 0);
+      }
+      let steps = 0;
+      while (service.canUndo()) {
+        service.undo();
+        steps++;
+      }
+      expect(steps).toBe(100);
+      expect(firstX()).toBe(50);
+    });
+  });
+
+  it('should set a curved segment\'s length along the curve, keeping the chosen end', () => {
+    const geometry = TestBed.inject(GeometryService);
+    service.setSegmentDepth('shape_1', 0, 20);
+    service.setSegmentLength('shape_1', 0, 150, 'start');
+    let shape = service.getState().shapes[0];
+    expect(geometry.getSegmentLength(shape, 0)).toBeCloseTo(150, 6);
+    expect(shape.vertices[0]).toEqual({ x: 0, y: 0 });
+
+    service.setSegmentLength('shape_1', 2, 80, 'end');
+    shape = service.getState().shapes[0];
+    expect(geometry.getSegmentLength(shape, 2)).toBeCloseTo(80, 6);
+    expect(shape.vertices[3]).toEqual({ x: 0, y: 100 });
+  });
+
+  it('should edit the shape it is given, whatever is selected', () => {
+    service.insertShapes([square], 200, 0);
+    const otherId = service.getState().shapes[1].id;
+    service.selectShape(otherId);
+
+    service.setCornerRadius('shape_1', 1, 10);
+    service.setSegmentDepth('shape_1', 2, 20);
+    service.moveSegment('shape_1', 0, 0, -10);
+    service.updateVertexPosition('shape_1', 3, { x: -10, y: 100 });
+
+    const [first, other] = service.getState().shapes;
+    expect(first.cornerRadii).toEqual([0, 10, 0, 0]);
+    expect(first.segmentDepths).toEqual([0, 0, 20, 0]);
+    expect(first.vertices).toEqual([{ x: 0, y: -10 }, { x: 100, y: -10 }, { x: 100, y: 100 }, { x: -10, y: 100 }]);
+    expect(other.vertices[0]).toEqual({ x: 200, y: 0 });
+  });
+
+  it('should flip a filleted, curved shape into the mirror image of its outline', () => {
+    const geometry = TestBed.inject(GeometryService);
+    service.setCornerRadius('shape_1', 1, 10);
+    service.setSegmentDepth('shape_1', 2, 20);
+    const original = service.getState().shapes[0];
+
+    service.flipShapes(['shape_1'], 'horizontal', { x: 50, y: 50 });
+    const flipped = service.getState().shapes[0];
+
+    // Every point of the mirrored outline lies on the flipped one, and the other way round
+    const mirrored = geometry.getFlattenedOutline(original).map(p => ({ x: 100 - p.x, y: p.y }));
+    const outline = geometry.getFlattenedOutline(flipped);
+    const distance = (p: { x: number; y: number }, points: { x: number; y: number }[]) =>
+      Math.min(...points.map(q => Math.hypot(p.x - q.x, p.y - q.y)));
+    expect(outline.length).toBe(mirrored.length);
+    outline.forEach(p => expect(distance(p, mirrored)).toBeCloseTo(0, 6));
+    mirrored.forEach(p => expect(distance(p, outline)).toBeCloseTo(0, 6));
+    expect(geometry.getArea(flipped)).toBeCloseTo(geometry.getArea(original), 6);
+    // The fillet on the top right corner is now on the top left one
+    const filleted = flipped.cornerRadii.findIndex(r => r === 10);
+    expect(flipped.vertices[filleted]).toEqual({ x: 0, y: 0 });
+  });
+
+  describe('removeVertex', () => {
+    // A square whose right side has a point at (120, 50); removing it straightens the side
+    const pointed: Shape = {
+      id: 'shape_1',
+      vertices: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 120, y: 50 }, { x: 100, y: 100 }, { x: 0, y: 100 }],
+      cornerRadii: [0, 0, 0, 0, 0],
+      segmentDepths: [0, 0, 0, 0, 0],
+    };
+
+    // A round hole around center, measured from the top and from the slanted side above
+    // the point
+    const loadWithHole = (center: { x: number; y: number }, diameter: number) => {
+      const geometry = TestBed.inject(GeometryService);
+      const distances: [number, number] = [center.y, geometry.getEdgeDistance(pointed, 1, center)];
+      service.loadDrawing([{
+        ...pointed,
+        cutouts: [{ id: 'cutout_1', kind: 'circle', width: diameter, height: diameter, cornerRadius: 0, edges: [0, 1], distances }],
+      }], service.getState().settings);
+    };
+
+    it('should keep a cutout measured from a merged segment where it was', () => {
+      const geometry = TestBed.inject(GeometryService);
+      loadWithHole({ x: 60, y: 50 }, 20);
+      service.removeVertex('shape_1', 2);
+
+      const shape = service.getState().shapes[0];
+      expect(shape.vertices.length).toBe(4);
+      expect(shape.cutouts!.length).toBe(1);
+      const center = geometry.getCutoutFrame(shape, shape.cutouts![0])!.center;
+      expect(center.x).toBeCloseTo(60, 6);
+      expect(center.y).toBeCloseTo(50, 6);
+    });
+
+    it('should refuse to leave a cutout outside the shape', () => {
+      loadWithHole({ x: 100, y: 50 }, 20);
+      expect(() => service.removeVertex('shape_1', 2)).toThrowError(ShapeEditError);
+      expect(service.getState().shapes[0].vertices.length).toBe(5);
+    });
+
+    it('should refuse to drop a cutout lined up with the sides that are merged', () => {
+      // Measured from the two slanted sides, the only ones along its direction
+      const geometry = TestBed.inject(GeometryService);
+      const center = { x: 60, y: 50 };
+      service.loadDrawing([{
+        ...pointed,
+        cutouts: [{
+          id: 'cutout_1', kind: 'rectangle', width: 20, height: 10, cornerRadius: 0, edges: [1, 2],
+          distances: [geometry.getEdgeDistance(pointed, 1, center), geometry.getEdgeDistance(pointed, 2, center)],
+        }],
+      }], service.getState().settings);
+
+      expect(() => service.removeVertex('shape_1', 2)).toThrowError(ShapeEditError);
+      expect(service.getState().shapes[0].cutouts!.length).toBe(1);
+    });
+  });
+
+  describe('splitShape', () => {
+    beforeEach(() => {
+      service.loadDrawing([{
+        ...square,
+        edgeFinishes: [{ type: 'polished' }, { type: 'wall' }, { type: 'eased' }, { type: 'bullnose' }],
+        // A hole centred at (75, 50), measured from the top and right sides
+        cutouts: [{ id: 'cutout_1', kind: 'circle', width: 20, height: 20, cornerRadius: 0, edges: [0, 1], distances: [50, 25] }],
+      }], service.getState().settings);
+    });
+
+    it('should cut the shape in two pieces joined by one seam', () => {
+      service.splitShape('shape_1', { x: 50, y: -20 }, { x: 50, y: 120 });
+      const [right, left] = service.getState().shapes;
+
+      expect(right.id).toBe('shape_1');
+      expect(right.vertices).toEqual([{ x: 50, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 50, y: 100 }]);
+      expect(left.vertices).toEqual([{ x: 50, y: 100 }, { x: 0, y: 100 }, { x: 0, y: 0 }, { x: 50, y: 0 }]);
+      expect(service.getState().selectedShapeIds).toEqual([right.id, left.id]);
+
+      // Each piece keeps the finishes of the sides it got and the seam is one joint
+      const rightSeam = right.edgeFinishes![3];
+      const leftSeam = left.edgeFinishes![3];
+      expect(right.edgeFinishes!.slice(0, 3)).toEqual([{ type: 'polished' }, { type: 'wall' }, { type: 'eased' }]);
+      expect(left.edgeFinishes!.slice(0, 3)).toEqual([{ type: 'eased' }, { type: 'bullnose' }, { type: 'polished' }]);
+      expect(rightSeam?.type).toBe('seam');
+      expect(leftSeam?.type).toBe('seam');
+      expect(rightSeam?.jointId).toBeTruthy();
+      expect(rightSeam?.jointId).toBe(leftSeam?.jointId);
+    });
+
+    it('should hand each cutout to the piece it falls in, where it was', () => {
+      const geometry = TestBed.inject(GeometryService);
+      service.splitShape('shape_1', { x: 50, y: -20 }, { x: 50, y: 120 });
+      const [right, left] = service.getState().shapes;
+
+      expect(left.cutouts).toBeUndefined();
+      expect(right.cutouts!.length).toBe(1);
+      const center = geometry.getCutoutFrame(right, right.cutouts![0])!.center;
+      expect(center.x).toBeCloseTo(75, 6);
+      expect(center.y).toBeCloseTo(50, 6);
+    });
+
+    it('should refuse a line that doesn\'t cross the shape', () => {
+      expect(() => service.splitShape('shape_1', { x: 150, y: -20 }, { x: 150, y: 120 })).toThrowError(ShapeEditError);
+      expect(service.getState().shapes.length).toBe(1);
+    });
+
+    it('should refuse a line through a cutout', () => {
+      expect(() => service.splitShape('shape_1', { x: 75, y: -20 }, { x: 75, y: 120 })).toThrowError(ShapeEditError);
+      expect(service.getState().shapes.length).toBe(1);
+    });
+  });
+});
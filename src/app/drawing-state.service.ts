@@ -1,23 +1,129 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject } from 'rxjs';
+import { ConstraintSolverService } from './constraint-solver.service';
+import { GeometryService } from './geometry.service';
+
+// Shapes drawn with the pipe tool keep the path they were drawn from, so the
+// outline can be regenerated when a leg's depth changes
+export interface PipeDefinition {
+  centerline: { x: number; y: number }[];
+  // One depth per leg (centerline segment), in pixels
+  legDepths: number[];
+}
+
+// Geometric intent kept on a shape and re-satisfied after every edit. Segment i runs
+// from vertex i to the next one; angles are interior angles in degrees, lengths in pixels.
+export type ShapeConstraint =
+  | { type: 'length'; segment: number; length: number }
+  | { type: 'horizontal'; segment: number }
+  | { type: 'vertical'; segment: number }
+  | { type: 'parallel'; segments: [number, number] }
+  | { type: 'perpendicular'; segments: [number, number] }
+  | { type: 'equal'; segments: [number, number] }
+  | { type: 'angle'; vertex: number; angle: number };
+
+export type CutoutKind = 'rectangle' | 'rounded' | 'oval' | 'circle';
+
+// Hole through a shape (sink, cooktop, tap). It is placed the way a fabricator measures
+// it: its centre sits at the given distances inward from two non-parallel segments, and
+// its width runs along the first of them, so it follows those edges when the outline
+// changes. Sizes are in pixels; circles have equal width and height.
+export interface Cutout {
+  id: string;
+  kind: CutoutKind;
+  width: number;
+  height: number;
+  // Only used by rounded rectangles
+  cornerRadius: number;
+  edges: [number, number];
+  distances: [number, number];
+}
+
+// How a segment's edge is finished. Wall edges are hidden against a wall and not
+// finished; a backsplash edge also gets an upstand of the given height, in pixels. Seam
+// edges are where a shape was split: the two that share a jointId are one joint.
+export type EdgeType = 'wall' | 'polished' | 'eased' | 'bullnose' | 'ogee' | 'backsplash' | 'seam';
+
+export interface EdgeFinish {
+  type: EdgeType;
+  backsplashHeight?: number;
+  jointId?: string;
+}
+
+export const EDGE_TYPE_LABELS: { [type in EdgeType]: string } = {
+  wall: 'Contra pared',
+  polished: 'Pulido',
+  eased: 'Matado',
+  bullnose: 'Media caña',
+  ogee: 'Gola',
+  backsplash: 'Con copete',
+  seam: 'Juntura',
+};
 
 export interface Shape {
   id: string;
   vertices: { x: number; y: number }[];
   cornerRadii: number[];
   segmentDepths: number[];
+  pipe?: PipeDefinition;
+  constraints?: ShapeConstraint[];
+  cutouts?: Cutout[];
+  // One per segment; null (or no list at all) while an edge hasn't been specified
+  edgeFinishes?: (EdgeFinish | null)[];
+}
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft-in';
+
+export interface DrawingSettings {
+  unit: LengthUnit;
+  // Decimal places shown for lengths (for ft-in, on the inches part)
+  precision: number;
+  // Drawing scale: real-world millimetres represented by one canvas pixel
+  mmPerPixel: number;
+  showGrid: boolean;
+  snapToGrid: boolean;
+  // Grid spacing and snap increment, in real-world millimetres
+  gridSpacingMm: number;
 }
 
 export interface DrawingState {
   shapes: Shape[];
+  // Shape whose handles and properties are being edited: set only while exactly one
+  // shape is selected
   selectedShapeId: string | null;
+  selectedShapeIds: string[];
+  settings: DrawingSettings;
 }
 
+export type AlignEdge = 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom';
+
+export const DEFAULT_SETTINGS: DrawingSettings = {
+  unit: 'mm',
+  precision: 0,
+  mmPerPixel: 1,
+  showGrid: true,
+  snapToGrid: true,
+  gridSpacingMm: 10,
+};
+
 const initialState: DrawingState = {
   shapes: [],
   selectedShapeId: null,
+  selectedShapeIds: [],
+  settings: DEFAULT_SETTINGS,
 };
 
+const MAX_HISTORY = 100;
+
+// Thrown by edits that can't be applied to a shape as requested; the message is
+// meant for the user
+export class ShapeEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShapeEditError';
+  }
+}
+
 
 @Injectable({
   providedIn: 'root'
@@ -27,7 +133,16 @@ export class DrawingStateService {
 
   readonly state$ = this._state.asObservable();
 
-  constructor() { }
+  // Undo/redo stacks hold full state snapshots taken before each mutation
+  private undoStack: DrawingState[] = [];
+  private redoStack: DrawingState[] = [];
+  private historyGroupDepth = 0;
+  private historyGroupRecorded = false;
+
+  constructor(
+    private geometrySvc: GeometryService,
+    private solverSvc: ConstraintSolverService
+  ) { }
 
   getState(): DrawingState {
     return this._state.getValue();
@@ -37,6 +152,58 @@ export class DrawingStateService {
     this._state.next({ ...this.getState(), ...state });
   }
 
+  // Records the current state in the undo history and applies the change.
+  // Inside a history group only the first commit is recorded, so a whole
+  // gesture (e.g. an Alt-drag) undoes as a single step.
+  private commit(state: Partial<DrawingState>): void {
+    if (this.historyGroupDepth === 0 || !this.historyGroupRecorded) {
+      this.undoStack.push(this.getState());
+      if (this.undoStack.length > MAX_HISTORY) {
+        this.undoStack.shift();
+      }
+      this.redoStack = [];
+      this.historyGroupRecorded = this.historyGroupDepth > 0;
+    }
+    this.setState(state);
+  }
+
+  beginHistoryGroup(): void {
+    if (this.historyGroupDepth === 0) {
+      this.historyGroupRecorded = false;
+    }
+    this.historyGroupDepth++;
+  }
+
+  endHistoryGroup(): void {
+    this.historyGroupDepth = Math.max(0, this.historyGroupDepth - 1);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  undo(): void {
+    const previous = this.undoStack.pop();
+    if (!previous) return;
+
+    this.historyGroupDepth = 0;
+    this.redoStack.push(this.getState());
+    this._state.next(previous);
+  }
+
+  redo(): void {
+    const next = this.redoStack.pop();
+    if (!next) return;
+
+    this.historyGroupDepth = 0;
+    this.undoStack.push(this.getState());
+    this._state.next(next);
+  }
+
   private generateId(): string {
     return 'shape_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
   }
@@ -47,63 +214,83 @@ export class DrawingStateService {
   }
 
   selectShape(shapeId: string | null): void {
-    this.setState({ selectedShapeId: shapeId });
+    this.selectShapes(shapeId ? [shapeId] : []);
+  }
+
+  selectShapes(shapeIds: string[]): void {
+    this.setState(this.selection(shapeIds));
+  }
+
+  // Adds the shape to the selection, or takes it out if it was already in it
+  toggleShapeSelection(shapeId: string): void {
+    const selected = this.getState().selectedShapeIds;
+    this.selectShapes(selected.includes(shapeId) ? selected.filter(id => id !== shapeId) : [...selected, shapeId]);
+  }
+
+  private selection(shapeIds: string[]): Pick<DrawingState, 'selectedShapeId' | 'selectedShapeIds'> {
+    const existing = this.getState().shapes.map(shape => shape.id);
+    const selectedShapeIds = existing.filter(id => shapeIds.includes(id));
+    return {
+      selectedShapeIds,
+      selectedShapeId: selectedShapeIds.length === 1 ? selectedShapeIds[0] : null,
+    };
   }
 
-  updateVertexPosition(index: number, position: { x: number; y: number }): void {
+  updateVertexPosition(shapeId: string, index: number, position: { x: number; y: number }): void {
     const state = this.getState();
-    const selectedShape = this.getSelectedShape();
-    if (!selectedShape) return;
+    const target = state.shapes.find(s => s.id === shapeId);
+    if (!target) return;
 
-    const newVertices = [...selectedShape.vertices];
+    const newVertices = [...target.vertices];
     newVertices[index] = position;
     
+    const solvedVertices = this.solveConstraints(target, newVertices, [index]);
     const newShapes = state.shapes.map(shape => 
-      shape.id === selectedShape.id 
-        ? { ...shape, vertices: newVertices }
+      shape.id === shapeId 
+        ? { ...shape, vertices: solvedVertices, pipe: undefined }
         : shape
     );
-    this.setState({ shapes: newShapes });
+    this.commit({ shapes: newShapes });
   }
 
-  setCornerRadius(index: number, radius: number): void {
+  setCornerRadius(shapeId: string, index: number, radius: number): void {
     const state = this.getState();
-    const selectedShape = this.getSelectedShape();
-    if (!selectedShape) return;
+    const target = state.shapes.find(s => s.id === shapeId);
+    if (!target) return;
 
-    const newRadii = [...selectedShape.cornerRadii];
+    const newRadii = [...target.cornerRadii];
     newRadii[index] = radius;
     
     const newShapes = state.shapes.map(shape => 
-      shape.id === selectedShape.id 
+      shape.id === shapeId 
         ? { ...shape, cornerRadii: newRadii }
         : shape
     );
-    this.setState({ shapes: newShapes });
+    this.commit({ shapes: newShapes });
   }
 
-  setSegmentDepth(index: number, depth: number): void {
+  setSegmentDepth(shapeId: string, index: number, depth: number): void {
     const state = this.getState();
-    const selectedShape = this.getSelectedShape();
-    if (!selectedShape) return;
+    const target = state.shapes.find(s => s.id === shapeId);
+    if (!target) return;
 
-    const newDepths = [...selectedShape.segmentDepths];
+    const newDepths = [...target.segmentDepths];
     newDepths[index] = depth;
     
     const newShapes = state.shapes.map(shape => 
-      shape.id === selectedShape.id 
+      shape.id === shapeId 
         ? { ...shape, segmentDepths: newDepths }
         : shape
     );
-    this.setState({ shapes: newShapes });
+    this.commit({ shapes: newShapes });
   }
 
-  moveSegment(index: number, dx: number, dy: number): void {
+  moveSegment(shapeId: string, index: number, dx: number, dy: number): void {
     const state = this.getState();
-    const selectedShape = this.getSelectedShape();
-    if (!selectedShape) return;
+    const target = state.shapes.find(s => s.id === shapeId);
+    if (!target) return;
 
-    const newVertices = [...selectedShape.vertices];
+    const newVertices = [...target.vertices];
     const numVertices = newVertices.length;
 
     const p1_index = index;
@@ -112,12 +299,43 @@ export class DrawingStateService {
     newVertices[p1_index] = { x: newVertices[p1_index].x + dx, y: newVertices[p1_index].y + dy };
     newVertices[p2_index] = { x: newVertices[p2_index].x + dx, y: newVertices[p2_index].y + dy };
 
+    const solvedVertices = this.solveConstraints(target, newVertices, [p1_index, p2_index]);
     const newShapes = state.shapes.map(shape => 
-      shape.id === selectedShape.id 
-        ? { ...shape, vertices: newVertices }
+      shape.id === shapeId 
+        ? { ...shape, vertices: solvedVertices, pipe: undefined }
         : shape
     );
-    this.setState({ shapes: newShapes });
+    this.commit({ shapes: newShapes });
+  }
+
+  // Sets a segment to an exact length, measured along its curve if it has one, moving
+  // only the vertices beyond one of its ends (the other end stays put; without an
+  // anchor, the one that moves fewer vertices). Throws ShapeEditError if the length
+  // can't be reached without folding the outline.
+  setSegmentLength(shapeId: string, segmentIndex: number, length: number, anchor?: 'start' | 'end'): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape) return;
+
+    if (length <= 0) {
+      throw new ShapeEditError('El largo debe ser mayor que cero.');
+    }
+    // The curve keeps its depth, so the chord is what changes
+    const chord = this.geometrySvc.getChordForLength(length, shape.segmentDepths[segmentIndex] || 0);
+    const stretched = this.geometrySvc.stretchSegment(shape.vertices, segmentIndex, chord, anchor);
+    if (!stretched || !this.geometrySvc.isSimplePolygon(stretched)) {
+      throw new ShapeEditError('Con ese largo la figura se cruzaría consigo misma.');
+    }
+
+    // A typed length replaces the one a fixed-length constraint was holding (constraints
+    // hold the chord)
+    const constraints = shape.constraints?.map(c =>
+      c.type === 'length' && c.segment === segmentIndex ? { ...c, length: chord } : c
+    );
+    const vertices = this.solveConstraints({ ...shape, constraints }, stretched, [segmentIndex, (segmentIndex + 1) % stretched.length]);
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId ? { ...s, vertices, constraints, pipe: undefined } : s)
+    });
   }
 
   scaleAll(scaleRatio: number, isHorizontal: boolean, allPoints: {x: number, y: number}[]): void {
@@ -141,12 +359,13 @@ export class DrawingStateService {
       }));
     }
     
+    const solvedVertices = this.solveConstraints(selectedShape, newVertices);
     const newShapes = state.shapes.map(shape => 
       shape.id === selectedShape.id 
-        ? { ...shape, vertices: newVertices }
+        ? { ...shape, vertices: solvedVertices, pipe: undefined }
         : shape
     );
-    this.setState({ shapes: newShapes });
+    this.commit({ shapes: newShapes });
   }
 
   addNewShape(vertices: { x: number; y: number }[]): void {
@@ -159,37 +378,764 @@ export class DrawingStateService {
     };
     
     const newShapes = [...state.shapes, newShape];
-    this.setState({ 
+    this.commit({ 
       shapes: newShapes,
-      selectedShapeId: newShape.id
+      selectedShapeId: newShape.id,
+      selectedShapeIds: [newShape.id]
+    });
+  }
+
+  addPipeShape(centerline: { x: number; y: number }[], legDepths: number[]): void {
+    const state = this.getState();
+    const newShape = this.regeneratePipeOutline({
+      id: this.generateId(),
+      vertices: [],
+      cornerRadii: [],
+      segmentDepths: [],
+    }, { centerline, legDepths });
+    if (newShape.vertices.length < 4) return;
+
+    this.commit({
+      shapes: [...state.shapes, newShape],
+      selectedShapeId: newShape.id,
+      selectedShapeIds: [newShape.id]
+    });
+  }
+
+  // Changes the depth of one leg, or of every leg when legIndex is null
+  setPipeLegDepth(shapeId: string, legIndex: number | null, depth: number): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape?.pipe || depth <= 0) return;
+
+    const legDepths = shape.pipe.legDepths.map((d, i) => legIndex === null || i === legIndex ? depth : d);
+    const newShape = this.regeneratePipeOutline(shape, { ...shape.pipe, legDepths });
+    this.commit({ shapes: state.shapes.map(s => s.id === shapeId ? newShape : s) });
+  }
+
+  setPipeCenterline(shapeId: string, centerline: { x: number; y: number }[]): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape?.pipe || centerline.length !== shape.pipe.centerline.length) return;
+
+    const newShape = this.regeneratePipeOutline(shape, { ...shape.pipe, centerline });
+    this.commit({ shapes: state.shapes.map(s => s.id === shapeId ? newShape : s) });
+  }
+
+  // Removes a vertex, merging the two segments that met there into one straight segment.
+  // Constraints on the merged segments or the corners that changed are dropped. Throws
+  // ShapeEditError if a cutout would end up outside the shape or can't be kept where it is.
+  removeVertex(shapeId: string, vertexIndex: number): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape) return;
+
+    const n = shape.vertices.length;
+    if (n <= 3) {
+      throw new ShapeEditError('Una figura necesita al menos 3 vértices.');
+    }
+    const vertices = shape.vertices.filter((_, i) => i !== vertexIndex);
+    if (!this.geometrySvc.isSimplePolygon(vertices)) {
+      throw new ShapeEditError('Sin ese vértice la figura se cruzaría consigo misma.');
+    }
+
+    // Segment prev runs from the previous vertex to this one; once merged it reaches the next
+    const prev = (vertexIndex - 1 + n) % n;
+    const next = (vertexIndex + 1) % n;
+    const reindex = (i: number) => i > vertexIndex ? i - 1 : i;
+    const segmentDepths = shape.segmentDepths
+      .map((depth, i) => i === prev ? 0 : depth)
+      .filter((_, i) => i !== vertexIndex);
+
+    const changedSegments = [prev, vertexIndex];
+    const changedCorners = [prev, vertexIndex, next];
+    const constraints = shape.constraints
+      ?.filter(c => {
+        switch (c.type) {
+          case 'angle':
+            return !changedCorners.includes(c.vertex);
+          case 'parallel':
+          case 'perpendicular':
+          case 'equal':
+            return !c.segments.some(segment => changedSegments.includes(segment));
+          default:
+            return !changedSegments.includes(c.segment);
+        }
+      })
+      .map((c): ShapeConstraint => {
+        switch (c.type) {
+          case 'angle':
+            return { ...c, vertex: reindex(c.vertex) };
+          case 'parallel':
+          case 'perpendicular':
+          case 'equal':
+            return { ...c, segments: [reindex(c.segments[0]), reindex(c.segments[1])] };
+          default:
+            return { ...c, segment: reindex(c.segment) };
+        }
+      });
+
+    // Cutouts stay where they are, re-measured from the merged segment where they were
+    // measured from a changed one
+    const mergedSegment = reindex(prev);
+    const cornerRadii = shape.cornerRadii.filter((_, i) => i !== vertexIndex);
+    const reshaped: Shape = { ...shape, vertices, cornerRadii, segmentDepths };
+    const cutouts = shape.cutouts?.map(cutout => {
+      const [first, second] = cutout.edges.map(edge => changedSegments.includes(edge) ? mergedSegment : reindex(edge));
+      const frame = this.geometrySvc.getCutoutFrame(shape, cutout);
+      const kept = frame && this.remeasureCutout(reshaped, cutout, frame, [first], [second]);
+      if (!kept) {
+        throw new ShapeEditError('Sin ese vértice no queda ningún lado desde el que medir un hueco.');
+      }
+      if (!this.geometrySvc.isCutoutInside(reshaped, kept)) {
+        throw new ShapeEditError('Sin ese vértice un hueco se saldría de la figura.');
+      }
+      return kept;
+    });
+
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId
+        ? {
+          ...s,
+          vertices,
+          cornerRadii,
+          segmentDepths,
+          constraints: constraints?.length ? constraints : undefined,
+          cutouts: cutouts?.length ? cutouts : undefined,
+          // The merged segment keeps the finish of the one that ran into the vertex
+          edgeFinishes: shape.edgeFinishes?.filter((_, i) => i !== vertexIndex),
+          pipe: undefined,
+        }
+        : s)
     });
   }
 
+  // Cuts a shape in two along the line through a and b, where it crosses the shape
+  // around the middle of a-b. The original keeps one piece and a new shape gets the
+  // other; both seam edges are recorded as one joint. Throws ShapeEditError if the
+  // line doesn't make a clean cut.
+  splitShape(shapeId: string, a: { x: number; y: number }, b: { x: number; y: number }): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape) return;
+
+    const crossings = this.geometrySvc.getLineCrossings(shape, a, b).sort((p, q) => p.along - q.along);
+    if (crossings.some(c => c.t < 1e-6 || c.t > 1 - 1e-6)) {
+      throw new ShapeEditError('La juntura no puede pasar por un vértice.');
+    }
+    // The line is inside the shape between the first and second crossing, the third and
+    // fourth, and so on
+    let pair: [number, number] | null = null;
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      if (crossings[k].along <= 0.5 && crossings[k + 1].along >= 0.5) pair = [k, k + 1];
+    }
+    if (!pair) {
+      throw new ShapeEditError('Dibuja la juntura de lado a lado de la figura.');
+    }
+    const [start, end] = [crossings[pair[0]], crossings[pair[1]]];
+    if (start.segment === end.segment) {
+      throw new ShapeEditError('La juntura debe unir dos lados distintos.');
+    }
+
+    const radii = this.geometrySvc.getFilletRadii(shape);
+    const n = shape.vertices.length;
+    const curvedAndFilleted = [start, end].some(c =>
+      Math.abs(shape.segmentDepths[c.segment] || 0) >= 0.1 && (radii[c.segment] > 0 || radii[(c.segment + 1) % n] > 0)
+    );
+    if (curvedAndFilleted) {
+      throw new ShapeEditError('La juntura no puede cruzar un lado curvo con esquinas redondeadas.');
+    }
+
+    const jointId = this.generateId();
+    const pieces = [
+      this.buildPiece(shape, start, end, shapeId, jointId),
+      this.buildPiece(shape, end, start, this.generateId(), jointId),
+    ];
+    if (pieces.some(piece => !this.geometrySvc.isSimplePolygon(piece.shape.vertices))) {
+      throw new ShapeEditError('La juntura dejaría una pieza que se cruza consigo misma.');
+    }
+    // A cut inside a fillet would shorten the segment it sits on, and with it the fillet
+    const filletsKept = pieces.every(piece => {
+      const pieceRadii = this.geometrySvc.getFilletRadii(piece.shape);
+      return piece.vertexFrom.every((original, k) => original === null || Math.abs(pieceRadii[k] - radii[original]) < 1e-6);
+    });
+    if (!filletsKept) {
+      throw new ShapeEditError('La juntura cae sobre una esquina redondeada; muévela fuera de la curva.');
+    }
+
+    const cutouts = this.splitCutouts(shape, pieces);
+    const [first, second] = pieces.map((piece, i) => ({
+      ...piece.shape,
+      cutouts: cutouts[i].length ? cutouts[i] : undefined,
+    }));
+    this.commit({
+      shapes: state.shapes.flatMap(s => s.id === shapeId ? [first, second] : [s]),
+      selectedShapeIds: [first.id, second.id],
+      selectedShapeId: null
+    });
+  }
+
+  // One side of a cut: from the point where the cut leaves segment `from`, round the
+  // outline to where it meets segment `to`, and back along the seam. vertexFrom and
+  // segmentFrom give the original index of each vertex and segment, or null for the cut
+  // points and the seam; the partial segments at either end map to the ones they're from.
+  private buildPiece(
+    shape: Shape,
+    from: { segment: number; point: { x: number; y: number } },
+    to: { segment: number; point: { x: number; y: number } },
+    id: string,
+    jointId: string
+  ): { shape: Shape; vertexFrom: (number | null)[]; segmentFrom: (number | null)[] } {
+    const n = shape.vertices.length;
+    const kept = (to.segment - from.segment + n) % n;
+    const originals = Array.from({ length: kept }, (_, t) => (from.segment + 1 + t) % n);
+    const vertexFrom = [null, ...originals, null];
+    const segmentFrom = [from.segment, ...originals.slice(0, -1), to.segment, null];
+    const vertices = [from.point, ...originals.map(i => shape.vertices[i]), to.point];
+
+    // The partial segments keep the circle of a curved original
+    const segmentDepths = segmentFrom.map((original, k) => {
+      const depth = original === null ? 0 : shape.segmentDepths[original] || 0;
+      if (original === null || Math.abs(depth) < 0.1 || (k !== 0 && k !== segmentFrom.length - 2)) return depth;
+      const p = shape.vertices[original];
+      const q = shape.vertices[(original + 1) % n];
+      const chord = Math.hypot(q.x - p.x, q.y - p.y);
+      const radius = (depth * depth + chord * chord / 4) / (2 * Math.abs(depth));
+      const a = vertices[k];
+      const b = vertices[(k + 1) % vertices.length];
+      const partChord = Math.hypot(b.x - a.x, b.y - a.y);
+      return Math.sign(depth) * (radius - Math.sqrt(Math.max(0, radius * radius - partChord * partChord / 4)));
+    });
+
+    // Constraints follow their segments and corners, as long as the cut leaves them holding
+    const constraints = shape.constraints
+      ?.map((c): ShapeConstraint | null => {
+        switch (c.type) {
+          case 'angle':
+            return vertexFrom.includes(c.vertex) ? { ...c, vertex: vertexFrom.indexOf(c.vertex) } : null;
+          case 'parallel':
+          case 'perpendicular':
+          case 'equal':
+            return c.segments.every(s => segmentFrom.includes(s))
+              ? { ...c, segments: [segmentFrom.indexOf(c.segments[0]), segmentFrom.indexOf(c.segments[1])] }
+              : null;
+          default:
+            return segmentFrom.includes(c.segment) ? { ...c, segment: segmentFrom.indexOf(c.segment) } : null;
+        }
+      })
+      .filter((c): c is ShapeConstraint => c !== null && this.solverSvc.isSatisfied(c, vertices));
+
+    return {
+      shape: {
+        id,
+        vertices,
+        cornerRadii: vertexFrom.map(original => original === null ? 0 : shape.cornerRadii[original] || 0),
+        segmentDepths,
+        constraints: constraints?.length ? constraints : undefined,
+        edgeFinishes: segmentFrom.map(original => original === null
+          ? { type: 'seam', jointId }
+          : shape.edgeFinishes?.[original] ?? null),
+      },
+      vertexFrom,
+      segmentFrom,
+    };
+  }
+
+  // Hands each cutout to the piece it falls in, re-measured from that piece's segments
+  // (the same ones where they survived the cut) so it stays where it was
+  private splitCutouts(
+    shape: Shape, pieces: { shape: Shape; segmentFrom: (number | null)[] }[]
+  ): Cutout[][] {
+    const result: Cutout[][] = pieces.map(() => []);
+    shape.cutouts?.forEach(cutout => {
+      const frame = this.geometrySvc.getCutoutFrame(shape, cutout);
+      if (!frame) return;
+
+      const placed = pieces.some((piece, p) => {
+        const seam = piece.shape.vertices.length - 1;
+        const surviving = (original: number) => piece.segmentFrom.indexOf(original);
+        const candidate = this.remeasureCutout(piece.shape, cutout, frame, [surviving(cutout.edges[0])], [surviving(cutout.edges[1]), seam]);
+        if (!candidate || !this.geometrySvc.isCutoutInside(piece.shape, candidate)) return false;
+        result[p].push(candidate);
+        return true;
+      });
+      if (!placed) {
+        throw new ShapeEditError('La juntura atraviesa un hueco.');
+      }
+    });
+    return result;
+  }
+
+  // The cutout measured from the segments of a reshaped shape so that it keeps the centre
+  // and direction of frame: from the first of the preferred segments that still suit,
+  // else from any that do. Null if no segment runs along the cutout any more.
+  private remeasureCutout(
+    shape: Shape,
+    cutout: Cutout,
+    frame: { center: { x: number; y: number }; axis: { x: number; y: number } },
+    preferredFirst: number[],
+    preferredSecond: number[]
+  ): Cutout | null {
+    const { vertices } = shape;
+    const crossWithAxis = (segment: number) => {
+      const a = vertices[segment];
+      const b = vertices[(segment + 1) % vertices.length];
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      return length === 0 ? 0 : ((b.x - a.x) * frame.axis.y - (b.y - a.y) * frame.axis.x) / length;
+    };
+    const segments = vertices.map((_, i) => i);
+    const first = [...preferredFirst, ...segments].find(s => s >= 0 && Math.abs(crossWithAxis(s)) < 1e-6);
+    const second = [...preferredSecond, ...segments].find(s => s >= 0 && Math.abs(crossWithAxis(s)) > 1e-6);
+    if (first === undefined || second === undefined) return null;
+
+    return {
+      ...cutout,
+      edges: [first, second],
+      distances: [
+        this.geometrySvc.getEdgeDistance(shape, first, frame.center),
+        this.geometrySvc.getEdgeDistance(shape, second, frame.center),
+      ],
+    };
+  }
+
+  // Adds a constraint and reshapes the shape to satisfy it
+  addConstraint(shapeId: string, constraint: ShapeConstraint): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape) return;
+
+    const constraints = [...(shape.constraints ?? []), constraint];
+    const vertices = this.solveConstraints({ ...shape, constraints }, shape.vertices);
+    const moved = vertices.some((v, i) => v.x !== shape.vertices[i].x || v.y !== shape.vertices[i].y);
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId
+        ? { ...s, vertices, constraints, pipe: moved ? undefined : s.pipe }
+        : s)
+    });
+  }
+
+  removeConstraint(shapeId: string, constraintIndex: number): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape?.constraints) return;
+
+    const constraints = shape.constraints.filter((_, i) => i !== constraintIndex);
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId
+        ? { ...s, constraints: constraints.length ? constraints : undefined }
+        : s)
+    });
+  }
+
+  // Adds a cutout to a shape. Throws ShapeEditError if it can't be placed as given.
+  addCutout(shapeId: string, cutout: Omit<Cutout, 'id'>): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape) return;
+
+    const added = this.checkCutout(shape, { ...cutout, id: this.generateId() });
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId ? { ...s, cutouts: [...(s.cutouts ?? []), added] } : s)
+    });
+  }
+
+  updateCutout(shapeId: string, cutoutId: string, changes: Partial<Omit<Cutout, 'id'>>): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    const cutout = shape?.cutouts?.find(c => c.id === cutoutId);
+    if (!shape || !cutout) return;
+
+    const updated = this.checkCutout(shape, { ...cutout, ...changes });
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId
+        ? { ...s, cutouts: s.cutouts?.map(c => c.id === cutoutId ? updated : c) }
+        : s)
+    });
+  }
+
+  removeCutout(shapeId: string, cutoutId: string): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape?.cutouts?.some(c => c.id === cutoutId)) return;
+
+    const cutouts = shape.cutouts.filter(c => c.id !== cutoutId);
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId
+        ? { ...s, cutouts: cutouts.length ? cutouts : undefined }
+        : s)
+    });
+  }
+
+  setEdgeFinish(shapeId: string, segmentIndex: number, finish: EdgeFinish | null): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape || segmentIndex < 0 || segmentIndex >= shape.vertices.length) return;
+    if (finish?.type === 'backsplash' && !((finish.backsplashHeight ?? 0) > 0)) {
+      throw new ShapeEditError('El copete necesita una altura positiva.');
+    }
+
+    const edgeFinishes = shape.vertices.map((_, i) => i === segmentIndex ? finish : shape.edgeFinishes?.[i] ?? null);
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId
+        ? { ...s, edgeFinishes: edgeFinishes.some(f => f) ? edgeFinishes : undefined }
+        : s)
+    });
+  }
+
+  // Returns the cutout as it will be stored (circles keep equal width and height), or
+  // throws ShapeEditError if it doesn't fit in the shape
+  private checkCutout(shape: Shape, cutout: Cutout): Cutout {
+    const checked = cutout.kind === 'circle' ? { ...cutout, height: cutout.width } : cutout;
+    if (!(checked.width > 0) || !(checked.height > 0)) {
+      throw new ShapeEditError('El hueco necesita un ancho y un alto positivos.');
+    }
+    if (!(checked.cornerRadius >= 0) || checked.distances.some(d => !Number.isFinite(d))) {
+      throw new ShapeEditError('Las medidas del hueco no son válidas.');
+    }
+    if (!this.geometrySvc.getCutoutFrame(shape, checked)) {
+      throw new ShapeEditError('El hueco se mide desde dos lados que no sean paralelos.');
+    }
+    if (!this.geometrySvc.isCutoutInside(shape, checked)) {
+      throw new ShapeEditError('El hueco se sale de la figura.');
+    }
+    return checked;
+  }
+
+  // Adjusts edited vertices so the shape's constraints hold again, leaving the pinned
+  // vertices where the edit put them. Throws ShapeEditError if that's impossible.
+  private solveConstraints(shape: Shape, vertices: { x: number; y: number }[], pinned: number[] = []): { x: number; y: number }[] {
+    if (!shape.constraints?.length) return vertices;
+
+    const solved = this.solverSvc.solve(vertices, shape.constraints, pinned);
+    if (!solved || !this.geometrySvc.isSimplePolygon(solved)) {
+      throw new ShapeEditError('Ese cambio no respeta las restricciones de la figura.');
+    }
+    return solved;
+  }
+
+  private regeneratePipeOutline(shape: Shape, pipe: PipeDefinition): Shape {
+    const vertices = this.geometrySvc.generateOrthogonalPipeVertices(pipe.centerline, pipe.legDepths);
+    // Corner and segment settings only still make sense if the outline kept its topology
+    const sameTopology = vertices.length === shape.vertices.length;
+    return {
+      ...shape,
+      vertices,
+      cornerRadii: sameTopology ? shape.cornerRadii : Array(vertices.length).fill(0),
+      segmentDepths: sameTopology ? shape.segmentDepths : Array(vertices.length).fill(0),
+      cutouts: sameTopology ? shape.cutouts : undefined,
+      edgeFinishes: sameTopology ? shape.edgeFinishes : undefined,
+      // The centerline drives a pipe's outline, so outline constraints don't survive it
+      constraints: undefined,
+      pipe,
+    };
+  }
+
   deleteShape(shapeId: string): void {
+    this.deleteShapes([shapeId]);
+  }
+
+  deleteShapes(shapeIds: string[]): void {
     const state = this.getState();
-    const newShapes = state.shapes.filter(shape => shape.id !== shapeId);
-    const newSelectedId = state.selectedShapeId === shapeId ? null : state.selectedShapeId;
-    this.setState({ 
-      shapes: newShapes,
-      selectedShapeId: newSelectedId
+    if (!state.shapes.some(shape => shapeIds.includes(shape.id))) return;
+
+    const remaining = state.selectedShapeIds.filter(id => !shapeIds.includes(id));
+    this.commit({
+      shapes: state.shapes.filter(shape => !shapeIds.includes(shape.id)),
+      selectedShapeIds: remaining,
+      selectedShapeId: remaining.length === 1 ? remaining[0] : null
     });
   }
 
   moveShape(shapeId: string, dx: number, dy: number): void {
+    this.moveShapes([shapeId], dx, dy);
+  }
+
+  moveShapes(shapeIds: string[], dx: number, dy: number): void {
+    const state = this.getState();
+    const newShapes = state.shapes.map(shape =>
+      shapeIds.includes(shape.id) ? this.translateShape(shape, dx, dy) : shape
+    );
+    this.commit({ shapes: newShapes });
+  }
+
+  // Copies the shapes, offset by (dx, dy), and selects the copies
+  duplicateShapes(shapeIds: string[], dx: number, dy: number): void {
+    this.insertShapes(this.getState().shapes.filter(shape => shapeIds.includes(shape.id)), dx, dy);
+  }
+
+  // Adds copies of shapes (e.g. pasted ones) under new ids and selects them. They are
+  // scaled about the origin first, then offset by (dx, dy).
+  insertShapes(shapes: Shape[], dx: number, dy: number, scale = 1): void {
     const state = this.getState();
-    const newShapes = state.shapes.map(shape => {
-      if (shape.id === shapeId) {
-        return {
-          ...shape,
-          vertices: shape.vertices.map(vertex => ({
-            x: vertex.x + dx,
-            y: vertex.y + dy
-          }))
-        };
+    const copies = shapes.map(shape => ({
+      ...this.translateShape(scale === 1 ? shape : this.scaleShape(shape, scale), dx, dy),
+      id: this.generateId(),
+    }));
+    if (copies.length === 0) return;
+
+    this.commit({
+      shapes: [...state.shapes, ...copies],
+      selectedShapeIds: copies.map(shape => shape.id),
+      selectedShapeId: copies.length === 1 ? copies[0].id : null
+    });
+  }
+
+  // Lines the shapes up on an edge or center of their combined bounding box
+  alignShapes(shapeIds: string[], edge: AlignEdge): void {
+    const boxes = this.getBoxes(shapeIds);
+    if (boxes.length < 2) return;
+
+    const left = Math.min(...boxes.map(b => b.bounds.x));
+    const top = Math.min(...boxes.map(b => b.bounds.y));
+    const right = Math.max(...boxes.map(b => b.bounds.x + b.bounds.width));
+    const bottom = Math.max(...boxes.map(b => b.bounds.y + b.bounds.height));
+
+    const offsets = new Map<string, { dx: number; dy: number }>();
+    boxes.forEach(({ id, bounds }) => {
+      switch (edge) {
+        case 'left': offsets.set(id, { dx: left - bounds.x, dy: 0 }); break;
+        case 'right': offsets.set(id, { dx: right - bounds.x - bounds.width, dy: 0 }); break;
+        case 'centerX': offsets.set(id, { dx: (left + right) / 2 - bounds.x - bounds.width / 2, dy: 0 }); break;
+        case 'top': offsets.set(id, { dx: 0, dy: top - bounds.y }); break;
+        case 'bottom': offsets.set(id, { dx: 0, dy: bottom - bounds.y - bounds.height }); break;
+        case 'centerY': offsets.set(id, { dx: 0, dy: (top + bottom) / 2 - bounds.y - bounds.height / 2 }); break;
+      }
+    });
+    this.translateShapes(offsets);
+  }
+
+  // Spaces the shapes evenly along an axis, keeping the outermost two where they are
+  distributeShapes(shapeIds: string[], axis: 'x' | 'y'): void {
+    const boxes = this.getBoxes(shapeIds);
+    if (boxes.length < 3) return;
+
+    const size = axis === 'x' ? 'width' : 'height';
+    boxes.sort((a, b) => (a.bounds[axis] + a.bounds[size] / 2) - (b.bounds[axis] + b.bounds[size] / 2));
+    const first = boxes[0].bounds;
+    const last = boxes[boxes.length - 1].bounds;
+    const totalSize = boxes.reduce((sum, b) => sum + b.bounds[size], 0);
+    const gap = (last[axis] + last[size] - first[axis] - totalSize) / (boxes.length - 1);
+
+    const offsets = new Map<string, { dx: number; dy: number }>();
+    let position = first[axis];
+    boxes.forEach(({ id, bounds }) => {
+      const delta = position - bounds[axis];
+      offsets.set(id, axis === 'x' ? { dx: delta, dy: 0 } : { dx: 0, dy: delta });
+      position += bounds[size] + gap;
+    });
+    this.translateShapes(offsets);
+  }
+
+  // Rotates the shapes together by angleDeg, counterclockwise as seen on screen, about
+  // the pivot or, by default, the centroid of their outlines
+  rotateShapes(shapeIds: string[], angleDeg: number, pivot?: { x: number; y: number }): void {
+    const state = this.getState();
+    const shapes = state.shapes.filter(shape => shapeIds.includes(shape.id));
+    const center = pivot ?? this.geometrySvc.getCentroid(shapes);
+    if (!center || !Number.isFinite(angleDeg) || angleDeg % 360 === 0) return;
+
+    this.commit({
+      shapes: state.shapes.map(shape => shapeIds.includes(shape.id) ? this.rotateShape(shape, angleDeg, center) : shape)
+    });
+  }
+
+  // Mirrors the shapes together, left to right ('horizontal') or top to bottom, across
+  // the pivot or, by default, the middle of their combined bounding box
+  flipShapes(shapeIds: string[], direction: 'horizontal' | 'vertical', pivot?: { x: number; y: number }): void {
+    const boxes = this.getBoxes(shapeIds);
+    if (boxes.length === 0) return;
+
+    const left = Math.min(...boxes.map(b => b.bounds.x));
+    const top = Math.min(...boxes.map(b => b.bounds.y));
+    const right = Math.max(...boxes.map(b => b.bounds.x + b.bounds.width));
+    const bottom = Math.max(...boxes.map(b => b.bounds.y + b.bounds.height));
+    const center = pivot ?? { x: (left + right) / 2, y: (top + bottom) / 2 };
+
+    const state = this.getState();
+    this.commit({
+      shapes: state.shapes.map(shape => shapeIds.includes(shape.id) ? this.mirrorShape(shape, direction, center) : shape)
+    });
+  }
+
+  private rotateShape(shape: Shape, angleDeg: number, pivot: { x: number; y: number }): Shape {
+    const isQuarterTurn = angleDeg % 90 === 0;
+    // Screen y points down, so a counterclockwise turn is a negative angle here
+    const radians = -angleDeg * Math.PI / 180;
+    // Quarter turns are exact, so rotated orthogonal edges stay orthogonal
+    const cos = isQuarterTurn ? Math.round(Math.cos(radians)) : Math.cos(radians);
+    const sin = isQuarterTurn ? Math.round(Math.sin(radians)) : Math.sin(radians);
+    const rotate = (p: { x: number; y: number }) => ({
+      x: pivot.x + (p.x - pivot.x) * cos - (p.y - pivot.y) * sin,
+      y: pivot.y + (p.x - pivot.x) * sin + (p.y - pivot.y) * cos,
+    });
+
+    const swapsAxes = isQuarterTurn && (angleDeg / 90) % 2 !== 0;
+    const constraints = shape.constraints?.flatMap((c): ShapeConstraint[] => {
+      if (c.type !== 'horizontal' && c.type !== 'vertical') return [c];
+      // Any other turn leaves no side horizontal or vertical
+      if (!isQuarterTurn) return [];
+      return [swapsAxes ? { ...c, type: c.type === 'horizontal' ? 'vertical' : 'horizontal' } : c];
+    });
+
+    return {
+      ...shape,
+      vertices: shape.vertices.map(rotate),
+      constraints: constraints?.length ? constraints : undefined,
+      // Pipe outlines are built from orthogonal legs, so only quarter turns keep the pipe
+      pipe: isQuarterTurn && shape.pipe
+        ? { ...shape.pipe, centerline: shape.pipe.centerline.map(rotate) }
+        : undefined,
+    };
+  }
+
+  // Mirroring reverses the outline's winding; walking it backwards restores the winding,
+  // so curved segments keep bulging to the same side and fillets stay on their corners.
+  // Vertex k of the result was vertex n-1-k, and segment k was segment n-2-k.
+  private mirrorShape(shape: Shape, direction: 'horizontal' | 'vertical', center: { x: number; y: number }): Shape {
+    const mirror = (p: { x: number; y: number }) => direction === 'horizontal'
+      ? { x: 2 * center.x - p.x, y: p.y }
+      : { x: p.x, y: 2 * center.y - p.y };
+    const n = shape.vertices.length;
+    const vertexFrom = (k: number) => n - 1 - k;
+    const segmentFrom = (k: number) => (2 * n - 2 - k) % n;
+
+    const constraints = shape.constraints?.map((c): ShapeConstraint => {
+      switch (c.type) {
+        case 'angle':
+          return { ...c, vertex: vertexFrom(c.vertex) };
+        case 'parallel':
+        case 'perpendicular':
+        case 'equal':
+          return { ...c, segments: [segmentFrom(c.segments[0]), segmentFrom(c.segments[1])] };
+        default:
+          return { ...c, segment: segmentFrom(c.segment) };
+      }
+    });
+
+    return {
+      ...shape,
+      vertices: shape.vertices.map((_, k) => mirror(shape.vertices[vertexFrom(k)])),
+      cornerRadii: shape.vertices.map((_, k) => shape.cornerRadii[vertexFrom(k)] ?? 0),
+      segmentDepths: shape.vertices.map((_, k) => shape.segmentDepths[segmentFrom(k)] ?? 0),
+      constraints,
+      cutouts: shape.cutouts?.map(c => ({ ...c, edges: [segmentFrom(c.edges[0]), segmentFrom(c.edges[1])] })),
+      edgeFinishes: shape.edgeFinishes && shape.vertices.map((_, k) => shape.edgeFinishes![segmentFrom(k)] ?? null),
+      // A mirrored centerline regenerates exactly this reversed outline
+      pipe: shape.pipe && { ...shape.pipe, centerline: shape.pipe.centerline.map(mirror) },
+    };
+  }
+
+  private getBoxes(shapeIds: string[]): { id: string; bounds: { x: number; y: number; width: number; height: number } }[] {
+    return this.getState().shapes
+      .filter(shape => shapeIds.includes(shape.id))
+      .flatMap(shape => {
+        const bounds = this.geometrySvc.getShapeBounds(shape);
+        return bounds ? [{ id: shape.id, bounds }] : [];
+      });
+  }
+
+  private translateShapes(offsets: Map<string, { dx: number; dy: number }>): void {
+    const state = this.getState();
+    this.commit({
+      shapes: state.shapes.map(shape => {
+        const offset = offsets.get(shape.id);
+        return offset ? this.translateShape(shape, offset.dx, offset.dy) : shape;
+      })
+    });
+  }
+
+  // Every length in the shape multiplied by factor
+  private scaleShape(shape: Shape, factor: number): Shape {
+    const scalePoint = (p: { x: number; y: number }) => ({ x: p.x * factor, y: p.y * factor });
+    return {
+      ...shape,
+      vertices: shape.vertices.map(scalePoint),
+      cornerRadii: shape.cornerRadii.map(r => r * factor),
+      segmentDepths: shape.segmentDepths.map(d => d * factor),
+      constraints: shape.constraints?.map(c => c.type === 'length' ? { ...c, length: c.length * factor } : c),
+      cutouts: shape.cutouts?.map(c => ({
+        ...c,
+        width: c.width * factor,
+        height: c.height * factor,
+        cornerRadius: c.cornerRadius * factor,
+        distances: [c.distances[0] * factor, c.distances[1] * factor],
+      })),
+      edgeFinishes: shape.edgeFinishes?.map(f => f?.backsplashHeight ? { ...f, backsplashHeight: f.backsplashHeight * factor } : f),
+      pipe: shape.pipe && {
+        centerline: shape.pipe.centerline.map(scalePoint),
+        legDepths: shape.pipe.legDepths.map(d => d * factor),
+      },
+    };
+  }
+
+  private translateShape(shape: Shape, dx: number, dy: number): Shape {
+    return {
+      ...shape,
+      vertices: shape.vertices.map(vertex => ({
+        x: vertex.x + dx,
+        y: vertex.y + dy
+      })),
+      pipe: shape.pipe && {
+        ...shape.pipe,
+        centerline: shape.pipe.centerline.map(point => ({
+          x: point.x + dx,
+          y: point.y + dy
+        }))
       }
-      return shape;
+    };
+  }
+
+  updateShape(shapeId: string, changes: Partial<Omit<Shape, 'id'>>): void {
+    const state = this.getState();
+    const newShapes = state.shapes.map(shape =>
+      shape.id === shapeId
+        ? { ...shape, ...changes }
+        : shape
+    );
+    this.commit({ shapes: newShapes });
+  }
+
+  // Sets the interior angle (0-360) at a vertex exactly, turning the edge towards the
+  // chosen neighbour. Throws ShapeEditError if the corner can't take that angle.
+  setVertexAngle(shapeId: string, vertexIndex: number, interiorAngleDeg: number, rotate: 'prev' | 'next'): void {
+    const state = this.getState();
+    const shape = state.shapes.find(s => s.id === shapeId);
+    if (!shape) return;
+
+    if (!(interiorAngleDeg > 0 && interiorAngleDeg < 360)) {
+      throw new ShapeEditError('El ángulo debe estar entre 0° y 360°.');
+    }
+    const rotated = this.geometrySvc.rotateCorner(shape.vertices, vertexIndex, interiorAngleDeg, rotate);
+    if (!rotated) {
+      throw new ShapeEditError('Esta esquina tiene un lado sin largo y no se puede girar.');
+    }
+    if (!this.geometrySvc.isSimplePolygon(rotated)) {
+      throw new ShapeEditError('Con ese ángulo la figura se cruzaría consigo misma.');
+    }
+
+    // A typed angle replaces the one a fixed-angle constraint was holding
+    const constraints = shape.constraints?.map(c =>
+      c.type === 'angle' && c.vertex === vertexIndex ? { ...c, angle: interiorAngleDeg } : c
+    );
+    const n = rotated.length;
+    const pinned = [(vertexIndex - 1 + n) % n, vertexIndex, (vertexIndex + 1) % n];
+    const vertices = this.solveConstraints({ ...shape, constraints }, rotated, pinned);
+    this.commit({
+      shapes: state.shapes.map(s => s.id === shapeId ? { ...s, vertices, constraints, pipe: undefined } : s)
+    });
+  }
+
+  loadDrawing(shapes: Shape[], settings: DrawingSettings): void {
+    this.commit({
+      shapes,
+      settings,
+      selectedShapeId: null,
+      selectedShapeIds: []
     });
-    this.setState({ shapes: newShapes });
+  }
+
+  updateSettings(changes: Partial<DrawingSettings>): void {
+    this.commit({ settings: { ...this.getState().settings, ...changes } });
   }
 
   // Compatibility methods for existing code
@@ -0,0 +1,122 @@
+import { Injectable } from '@angular/core';
+import { DrawingState } from './drawing-state.service';
+import { GeometryService, OutlinePoint } from './geometry.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DxfExportService {
+  constructor(private geometrySvc: GeometryService) { }
+
+  // Writes an AutoCAD R12 (AC1009) ASCII DXF. R12 predates LWPOLYLINE, so every shape
+  // becomes the equivalent closed POLYLINE/VERTEX sequence, with fillets and curved
+  // segments kept as true arcs through the vertex bulge (group 42). Cutouts are further
+  // closed polylines on their shape's layer.
+  public exportDxf(state: DrawingState): string {
+    const shapes = state.shapes.filter(shape => shape.vertices.length >= 3);
+    // Imperial documents are written in inches, metric ones in millimetres
+    const isImperial = state.settings.unit === 'in' || state.settings.unit === 'ft-in';
+    const unitsPerPixel = state.settings.mmPerPixel / (isImperial ? 25.4 : 1);
+    // Each shape's outline followed by its cutouts, all on the shape's layer
+    const polylines = shapes.map(shape => [
+      this.geometrySvc.generateOutline(shape),
+      ...(shape.cutouts ?? []).map(cutout => this.geometrySvc.getCutoutOutline(shape, cutout)),
+    ].filter(outline => outline.length > 0).map(outline => this.toDxfCoordinates(outline, unitsPerPixel)));
+    const layers = shapes.map((_, i) => `SHAPE_${i + 1}`);
+
+    const allPoints = polylines.flat(2);
+    const extMin = {
+      x: allPoints.length ? Math.min(...allPoints.map(p => p.x)) : 0,
+      y: allPoints.length ? Math.min(...allPoints.map(p => p.y)) : 0,
+    };
+    const extMax = {
+      x: allPoints.length ? Math.max(...allPoints.map(p => p.x)) : 0,
+      y: allPoints.length ? Math.max(...allPoints.map(p => p.y)) : 0,
+    };
+
+    const out: (string | number)[] = [];
+    const group = (code: number, value: string | number) => out.push(code, value);
+
+    group(999, `Units: ${isImperial ? 'inches' : 'millimetres'}`);
+
+    group(0, 'SECTION');
+    group(2, 'HEADER');
+    group(9, '$ACADVER');
+    group(1, 'AC1009');
+    group(9, '$EXTMIN');
+    group(10, this.num(extMin.x));
+    group(20, this.num(extMin.y));
+    group(9, '$EXTMAX');
+    group(10, this.num(extMax.x));
+    group(20, this.num(extMax.y));
+    group(0, 'ENDSEC');
+
+    group(0, 'SECTION');
+    group(2, 'TABLES');
+    group(0, 'TABLE');
+    group(2, 'LTYPE');
+    group(70, 1);
+    group(0, 'LTYPE');
+    group(2, 'CONTINUOUS');
+    group(70, 0);
+    group(3, 'Solid line');
+    group(72, 65);
+    group(73, 0);
+    group(40, 0);
+    group(0, 'ENDTAB');
+    group(0, 'TABLE');
+    group(2, 'LAYER');
+    group(70, layers.length);
+    layers.forEach((layer, i) => {
+      group(0, 'LAYER');
+      group(2, layer);
+      group(70, 0);
+      group(62, (i % 255) + 1);
+      group(6, 'CONTINUOUS');
+    });
+    group(0, 'ENDTAB');
+    group(0, 'ENDSEC');
+
+    group(0, 'SECTION');
+    group(2, 'ENTITIES');
+    polylines.forEach((outlines, i) => outlines.forEach(outline => {
+      group(0, 'POLYLINE');
+      group(8, layers[i]);
+      group(66, 1);
+      group(10, 0);
+      group(20, 0);
+      group(30, 0);
+      group(70, 1); // Closed
+      outline.forEach(point => {
+        group(0, 'VERTEX');
+        group(8, layers[i]);
+        group(10, this.num(point.x));
+        group(20, this.num(point.y));
+        group(30, 0);
+        if (point.bulge !== 0) {
+          group(42, this.num(point.bulge));
+        }
+      });
+      group(0, 'SEQEND');
+      group(8, layers[i]);
+    }));
+    group(0, 'ENDSEC');
+    group(0, 'EOF');
+
+    return out.join('\n') + '\n';
+  }
+
+  // DXF is Y-up while the canvas is Y-down. Flipping Y keeps the picture the same way
+  // round, but reverses every arc's turning direction, so bulges change sign too.
+  private toDxfCoordinates(outline: OutlinePoint[], unitsPerPixel: number): OutlinePoint[] {
+    return outline.map(point => ({
+      x: point.x * unitsPerPixel,
+      y: -point.y * unitsPerPixel,
+      bulge: -point.bulge,
+    }));
+  }
+
+  private num(value: number): string {
+    return String(Math.round(value * 1e6) / 1e6);
+  }
+}
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { Shape } from './drawing-state.service';
+import { GeometryService } from './geometry.service';
+
+describe('GeometryService', () => {
+  let service: GeometryService;
+
+  // 200 wide and 100 high, wound clockwise on screen like the shapes the app draws
+  const rectangle: Shape = {
+    id: 'shape_1',
+    vertices: [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 100 }, { x: 0, y: 100 }],
+    cornerRadii: [0, 0, 0, 0],
+    segmentDepths: [0, 0, 0, 0],
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(GeometryService);
+  });
+
+  it('should measure a rectangle', () => {
+    expect(service.getArea(rectangle)).toBeCloseTo(20000, 6);
+    expect(service.getPerimeter(rectangle)).toBeCloseTo(600, 6);
+    expect(service.getShapeCentroid(rectangle)).toEqual({ x: 100, y: 50 });
+  });
+
+  it('should measure a rectangle with filleted corners', () => {
+    const r = 10;
+    const filleted: Shape = { ...rectangle, cornerRadii: [r, r, r, r] };
+    // Each fillet cuts a square corner down to a quarter circle
+    expect(service.getArea(filleted)).toBeCloseTo(20000 - (4 - Math.PI) * r * r, 6);
+    expect(service.getPerimeter(filleted)).toBeCloseTo(600 - 8 * r + 2 * Math.PI * r, 6);
+    const centroid = service.getShapeCentroid(filleted)!;
+    expect(centroid.x).toBeCloseTo(100, 6);
+    expect(centroid.y).toBeCloseTo(50, 6);
+  });
+
+  it('should measure a rectangle with one curved edge', () => {
+    // The bottom edge curves 20 into the shape along a circle through its ends
+    const depth = 20;
+    const chord = 200;
+    const curved: Shape = { ...rectangle, segmentDepths: [0, 0, depth, 0] };
+    const radius = (depth * depth + chord * chord / 4) / (2 * depth);
+    const half = Math.asin(chord / (2 * radius));
+    const segmentArea = radius * radius * (half - Math.sin(half) * Math.cos(half));
+    // The circle's centre is below the chord, and the segment's centroid above it
+    const segmentY = 100 - depth + radius - chord ** 3 / (12 * segmentArea);
+
+    expect(service.getArea(curved)).toBeCloseTo(20000 - segmentArea, 6);
+    expect(service.getPerimeter(curved)).toBeCloseTo(400 + 2 * radius * half, 6);
+    const centroid = service.getShapeCentroid(curved)!;
+    expect(centroid.x).toBeCloseTo(100, 6);
+    expect(centroid.y).toBeCloseTo((20000 * 50 - segmentArea * segmentY) / (20000 - segmentArea), 6);
+  });
+});
@@ -1,5 +1,23 @@
 import { Injectable } from '@angular/core';
-import { Shape } from './drawing-state.service';
+import { Cutout, Shape } from './drawing-state.service';
+
+export interface OutlinePoint {
+  x: number;
+  y: number;
+  bulge: number;
+}
+
+// Ovals are exported as polylines of this many sides, and arcs are split into this many
+// chords when testing whether a cutout fits
+const OVAL_SEGMENTS = 72;
+const ARC_PIECES = 8;
+
+interface CornerArc {
+  p_arc_start: { x: number; y: number };
+  p_arc_end: { x: number; y: number };
+  radius: number;
+  sweepFlag: 0 | 1;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -8,12 +26,198 @@ export class GeometryService {
   constructor() { }
 
   public generatePathData(shape: Shape): string {
-    const { vertices, cornerRadii, segmentDepths } = shape;
+    const { vertices, segmentDepths } = shape;
     if (!vertices || vertices.length < 2) return '';
 
     const numVertices = vertices.length;
+    const arcPoints = this.getCornerArcs(shape);
+
+    let path = `M ${arcPoints[numVertices - 1].p_arc_end.x} ${arcPoints[numVertices - 1].p_arc_end.y}`;
+
+    for (let i = 0; i < numVertices; i++) {
+      const prevArc = arcPoints[(i - 1 + numVertices) % numVertices];
+      const currentArc = arcPoints[i];
+
+      const startPoint = prevArc.p_arc_end;
+      const endPoint = currentArc.p_arc_start;
+      const depth = segmentDepths[(i - 1 + numVertices) % numVertices] || 0;
+
+      if (Math.abs(depth) < 0.1) {
+        path += ` L ${endPoint.x} ${endPoint.y}`;
+      } else {
+        const chord = Math.hypot(endPoint.x - startPoint.x, endPoint.y - startPoint.y);
+        if (chord > 0) {
+          const radius = (depth * depth + (chord / 2) * (chord / 2)) / (2 * depth);
+          const sweepFlag = depth > 0 ? 0 : 1;
+          path += ` A ${Math.abs(radius)} ${Math.abs(radius)} 0 0 ${sweepFlag} ${endPoint.x} ${endPoint.y}`;
+        }
+      }
+
+      if (currentArc.radius > 0) {
+        path += ` A ${currentArc.radius} ${currentArc.radius} 0 0 ${currentArc.sweepFlag} ${currentArc.p_arc_end.x} ${currentArc.p_arc_end.y}`;
+      }
+    }
+
+    return path;
+  }
+
+  // Same outline as generatePathData, as a closed polyline where each point carries the
+  // bulge (tan of a quarter of the included angle) of the segment that starts at it.
+  // A positive bulge turns the same way as an SVG arc with sweep-flag 1.
+  public generateOutline(shape: Shape): OutlinePoint[] {
+    const { vertices, segmentDepths } = shape;
+    if (!vertices || vertices.length < 2) return [];
+
+    const numVertices = vertices.length;
+    const arcPoints = this.getCornerArcs(shape);
+    const outline: OutlinePoint[] = [];
+
+    for (let i = 0; i < numVertices; i++) {
+      const prevArc = arcPoints[(i - 1 + numVertices) % numVertices];
+      const currentArc = arcPoints[i];
+
+      const startPoint = prevArc.p_arc_end;
+      const endPoint = currentArc.p_arc_start;
+      const depth = segmentDepths[(i - 1 + numVertices) % numVertices] || 0;
+      const chord = Math.hypot(endPoint.x - startPoint.x, endPoint.y - startPoint.y);
+
+      // Fillets can consume a whole segment, leaving nothing between them
+      if (chord > 1e-9) {
+        outline.push({ x: startPoint.x, y: startPoint.y, bulge: this.segmentBulge(chord, depth) });
+      }
+
+      if (currentArc.radius > 0) {
+        const chord = Math.hypot(
+          currentArc.p_arc_end.x - currentArc.p_arc_start.x,
+          currentArc.p_arc_end.y - currentArc.p_arc_start.y
+        );
+        const bulge = this.minorArcBulge(chord, currentArc.radius) * (currentArc.sweepFlag === 1 ? 1 : -1);
+        outline.push({ x: currentArc.p_arc_start.x, y: currentArc.p_arc_start.y, bulge });
+      }
+    }
+
+    return outline;
+  }
+
+  // Bulge of a segment curved by depth, as generateOutline gives it
+  private segmentBulge(chord: number, depth: number): number {
+    if (Math.abs(depth) < 0.1 || chord === 0) return 0;
+    const radius = Math.abs((depth * depth + (chord / 2) * (chord / 2)) / (2 * depth));
+    return this.minorArcBulge(chord, radius) * (depth > 0 ? -1 : 1);
+  }
 
-    const arcPoints = vertices.map((p_curr, i) => {
+  // Length of the arc (or line, for no bulge) between two points
+  private arcLength(chord: number, bulge: number): number {
+    if (bulge === 0 || chord === 0) return chord;
+    const angle = 4 * Math.atan(Math.abs(bulge));
+    return chord / (2 * Math.sin(angle / 2)) * angle;
+  }
+
+  // The part of the outline a segment accounts for, between the fillets at its ends: its
+  // start point, carrying the bulge, and its end point
+  public getSegmentOutline(shape: Shape, segmentIndex: number): [OutlinePoint, OutlinePoint] {
+    const arcs = this.getCornerArcs(shape);
+    const start = arcs[segmentIndex].p_arc_end;
+    const end = arcs[(segmentIndex + 1) % arcs.length].p_arc_start;
+    const chord = Math.hypot(end.x - start.x, end.y - start.y);
+    return [
+      { x: start.x, y: start.y, bulge: this.segmentBulge(chord, shape.segmentDepths[segmentIndex] || 0) },
+      { x: end.x, y: end.y, bulge: 0 },
+    ];
+  }
+
+  // Finished length of an edge: the segment as drawn plus half of each fillet at its
+  // ends, so the edges of a shape add up to its perimeter
+  public getEdgeLength(shape: Shape, segmentIndex: number): number {
+    const arcs = this.getCornerArcs(shape);
+    const [start, end] = this.getSegmentOutline(shape, segmentIndex);
+    const filletLength = (arc: CornerArc) => {
+      if (arc.radius === 0) return 0;
+      const chord = Math.hypot(arc.p_arc_end.x - arc.p_arc_start.x, arc.p_arc_end.y - arc.p_arc_start.y);
+      return this.arcLength(chord, this.minorArcBulge(chord, arc.radius));
+    };
+    return this.arcLength(Math.hypot(end.x - start.x, end.y - start.y), start.bulge)
+      + filletLength(arcs[segmentIndex]) / 2
+      + filletLength(arcs[(segmentIndex + 1) % arcs.length]) / 2;
+  }
+
+  // Radius each corner is actually drawn with, after fillets too big for their
+  // segments have been shrunk to fit
+  public getFilletRadii(shape: Shape): number[] {
+    return this.getCornerArcs(shape).map(arc => arc.radius);
+  }
+
+  // Every point where the infinite line through a and b crosses the shape's segments
+  // as drawn (curved ones on their arc), with its position along the line, where a is 0
+  // and b is 1, and along the segment, from 0 at its first vertex to 1 at the next
+  public getLineCrossings(
+    shape: Shape, a: { x: number; y: number }, b: { x: number; y: number }
+  ): { segment: number; point: { x: number; y: number }; along: number; t: number }[] {
+    const line = { x: b.x - a.x, y: b.y - a.y };
+    const lineLength2 = line.x * line.x + line.y * line.y;
+    if (lineLength2 === 0) return [];
+    const n = shape.vertices.length;
+    const crossings: { segment: number; point: { x: number; y: number }; along: number; t: number }[] = [];
+
+    shape.vertices.forEach((p, i) => {
+      const q = shape.vertices[(i + 1) % n];
+      const chord = Math.hypot(q.x - p.x, q.y - p.y);
+      const bulge = this.segmentBulge(chord, shape.segmentDepths[i] || 0);
+      const add = (point: { x: number; y: number }, t: number) => crossings.push({
+        segment: i,
+        point,
+        along: ((point.x - a.x) * line.x + (point.y - a.y) * line.y) / lineLength2,
+        t,
+      });
+
+      if (bulge === 0) {
+        const d = { x: q.x - p.x, y: q.y - p.y };
+        const denominator = line.x * d.y - line.y * d.x;
+        if (Math.abs(denominator) < 1e-12) return;
+        const t = ((p.x - a.x) * line.y - (p.y - a.y) * line.x) / denominator;
+        if (t >= 0 && t <= 1) add({ x: p.x + d.x * t, y: p.y + d.y * t }, t);
+        return;
+      }
+
+      // Same circle as getShapeBounds; only points on the arc's side of the chord count
+      const sign = Math.sign(bulge);
+      const side = { x: (q.y - p.y) / chord * sign, y: -(q.x - p.x) / chord * sign };
+      const sagitta = Math.abs(bulge) * chord / 2;
+      const radius = chord * (1 + bulge * bulge) / (4 * Math.abs(bulge));
+      const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+      const center = { x: mid.x - side.x * (radius - sagitta), y: mid.y - side.y * (radius - sagitta) };
+      const f = { x: a.x - center.x, y: a.y - center.y };
+      const B = 2 * (f.x * line.x + f.y * line.y);
+      const C = f.x * f.x + f.y * f.y - radius * radius;
+      const discriminant = B * B - 4 * lineLength2 * C;
+      if (discriminant < 0) return;
+      [-1, 1].forEach(root => {
+        const s = (-B + root * Math.sqrt(discriminant)) / (2 * lineLength2);
+        const point = { x: a.x + line.x * s, y: a.y + line.y * s };
+        if ((point.x - mid.x) * side.x + (point.y - mid.y) * side.y < 0) return;
+        const t = ((point.x - p.x) * (q.x - p.x) + (point.y - p.y) * (q.y - p.y)) / (chord * chord);
+        add(point, t);
+      });
+    });
+    return crossings;
+  }
+
+  // Magnitude of the bulge of the shorter arc of the given radius spanning a chord,
+  // matching how SVG draws arcs with large-arc-flag 0
+  private minorArcBulge(chord: number, radius: number): number {
+    if (chord === 0) return 0;
+    // SVG scales radii that are too small up to a half circle
+    const halfChord = chord / 2;
+    const r = Math.max(radius, halfChord);
+    const sagitta = r - Math.sqrt(r * r - halfChord * halfChord);
+    return sagitta / halfChord;
+  }
+
+  private getCornerArcs(shape: Shape): CornerArc[] {
+    const { vertices, cornerRadii } = shape;
+    const numVertices = vertices.length;
+
+    return vertices.map((p_curr, i) => {
       const p_prev = vertices[(i - 1 + numVertices) % numVertices];
       const p_next = vertices[(i + 1) % numVertices];
       const radius = cornerRadii[i] || 0;
@@ -24,7 +228,7 @@ export class GeometryService {
       const l_next = Math.hypot(v_next.x, v_next.y);
 
       if (l_prev === 0 || l_next === 0) {
-        return { p_arc_start: p_curr, p_arc_end: p_curr, radius: 0 };
+        return { p_arc_start: p_curr, p_arc_end: p_curr, radius: 0, sweepFlag: 0 };
       }
 
       const angle = Math.acos(
@@ -36,7 +240,7 @@ export class GeometryService {
       const actualRadius = dist * tanHalfAngle;
 
       if (actualRadius < 0.1) {
-        return { p_arc_start: p_curr, p_arc_end: p_curr, radius: 0 };
+        return { p_arc_start: p_curr, p_arc_end: p_curr, radius: 0, sweepFlag: 0 };
       }
 
       const p_arc_start = {
@@ -48,54 +252,592 @@ export class GeometryService {
         y: p_curr.y + (v_next.y / l_next) * dist,
       };
 
-      return { p_arc_start, p_arc_end, radius: actualRadius };
+      const crossProduct = v_prev.x * v_next.y - v_prev.y * v_next.x;
+      const sweepFlag: 0 | 1 = crossProduct > 0 ? 0 : 1;
+
+      return { p_arc_start, p_arc_end, radius: actualRadius, sweepFlag };
     });
+  }
 
-    let path = `M ${arcPoints[numVertices - 1].p_arc_end.x} ${arcPoints[numVertices - 1].p_arc_end.y}`;
+  // Bounding box of the shape as drawn, fillets and curved segments included
+  public getShapeBounds(shape: Shape): { x: number; y: number; width: number; height: number } | null {
+    const outline = this.generateOutline(shape);
+    if (outline.length === 0) return null;
 
-    for (let i = 0; i < numVertices; i++) {
-      const prevArc = arcPoints[(i - 1 + numVertices) % numVertices];
-      const currentArc = arcPoints[i];
+    const points: { x: number; y: number }[] = [];
+    outline.forEach((p, i) => {
+      points.push(p);
+      if (p.bulge === 0) return;
 
-      const startPoint = prevArc.p_arc_end;
-      const endPoint = currentArc.p_arc_start;
-      const depth = segmentDepths[(i - 1 + numVertices) % numVertices] || 0;
+      // An arc also reaches the extremes of its circle that lie on its side of the chord
+      const q = outline[(i + 1) % outline.length];
+      const chord = Math.hypot(q.x - p.x, q.y - p.y);
+      if (chord === 0) return;
+      const d = { x: (q.x - p.x) / chord, y: (q.y - p.y) / chord };
+      const sagitta = p.bulge * chord / 2;
+      const radius = chord * (1 + p.bulge * p.bulge) / (4 * Math.abs(p.bulge));
+      const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+      // A positive bulge sweeps the positive way, so the arc lies to the right of the chord
+      const side = { x: d.y * Math.sign(sagitta), y: -d.x * Math.sign(sagitta) };
+      const center = {
+        x: mid.x - side.x * (radius - Math.abs(sagitta)),
+        y: mid.y - side.y * (radius - Math.abs(sagitta)),
+      };
+      [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }].forEach(u => {
+        const extreme = { x: center.x + u.x * radius, y: center.y + u.y * radius };
+        if ((extreme.x - mid.x) * side.x + (extreme.y - mid.y) * side.y > 0) {
+          points.push(extreme);
+        }
+      });
+    });
 
-      if (Math.abs(depth) < 0.1) {
-        path += ` L ${endPoint.x} ${endPoint.y}`;
+    const minX = Math.min(...points.map(p => p.x));
+    const minY = Math.min(...points.map(p => p.y));
+    const maxX = Math.max(...points.map(p => p.x));
+    const maxY = Math.max(...points.map(p => p.y));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  // Length of a segment as drawn, i.e. the arc length when the segment is curved
+  public getSegmentLength(shape: Shape, segmentIndex: number): number {
+    const { vertices, segmentDepths } = shape;
+    const numVertices = vertices.length;
+    const p1 = vertices[segmentIndex];
+    const p2 = vertices[(segmentIndex + 1) % numVertices];
+    return this.curvedLength(Math.hypot(p2.x - p1.x, p2.y - p1.y), segmentDepths[segmentIndex] || 0);
+  }
+
+  // Chord a segment curved by depth needs for its length (as getSegmentLength measures
+  // it) to be the given one
+  public getChordForLength(length: number, depth: number): number {
+    if (Math.abs(depth) <= 0.1) return length;
+    // The arc is never shorter than its chord, and grows with it
+    let low = 0;
+    let high = length;
+    for (let i = 0; i < 60; i++) {
+      const chord = (low + high) / 2;
+      if (this.curvedLength(chord, depth) < length) {
+        low = chord;
       } else {
-        const chord = Math.hypot(endPoint.x - startPoint.x, endPoint.y - startPoint.y);
-        if (chord > 0) {
-          const radius = (depth * depth + (chord / 2) * (chord / 2)) / (2 * depth);
-          const sweepFlag = depth > 0 ? 0 : 1;
-          path += ` A ${Math.abs(radius)} ${Math.abs(radius)} 0 0 ${sweepFlag} ${endPoint.x} ${endPoint.y}`;
+        high = chord;
+      }
+    }
+    return (low + high) / 2;
+  }
+
+  // Inward and outward curves of the same depth are equally long
+  private curvedLength(chord: number, depth: number): number {
+    if (Math.abs(depth) <= 0.1 || chord === 0) return chord;
+    const radius = Math.abs((depth * depth + (chord / 2) * (chord / 2)) / (2 * depth));
+    const angle = 2 * Math.asin(Math.min(1, (chord / 2) / radius));
+    return radius * angle;
+  }
+
+  // Angle in degrees between the two segments meeting at a vertex, or null if one of them is degenerate
+  public getVertexAngle(shape: Shape, vertexIndex: number): number | null {
+    const { vertices } = shape;
+    const numVertices = vertices.length;
+    const p_curr = vertices[vertexIndex];
+    const p_prev = vertices[(vertexIndex - 1 + numVertices) % numVertices];
+    const p_next = vertices[(vertexIndex + 1) % numVertices];
+    const v_a = { x: p_prev.x - p_curr.x, y: p_prev.y - p_curr.y };
+    const v_b = { x: p_next.x - p_curr.x, y: p_next.y - p_curr.y };
+    const l_a = Math.hypot(v_a.x, v_a.y);
+    const l_b = Math.hypot(v_b.x, v_b.y);
+    if (l_a === 0 || l_b === 0) return null;
+
+    const dotProduct = v_a.x * v_b.x + v_a.y * v_b.y;
+    const cosValue = Math.max(-1, Math.min(1, dotProduct / (l_a * l_b)));
+    return Math.acos(cosValue) * (180 / Math.PI);
+  }
+
+  // Interior angle in degrees (0-360) at a vertex: unlike getVertexAngle, reflex
+  // corners such as the inside of an L read above 180
+  public getInteriorAngle(shape: Shape, vertexIndex: number): number | null {
+    const angle = this.getVertexAngle(shape, vertexIndex);
+    if (angle === null) return null;
+
+    const { vertices } = shape;
+    const numVertices = vertices.length;
+    const p_curr = vertices[vertexIndex];
+    const p_prev = vertices[(vertexIndex - 1 + numVertices) % numVertices];
+    const p_next = vertices[(vertexIndex + 1) % numVertices];
+    const turn = (p_curr.x - p_prev.x) * (p_next.y - p_curr.y) - (p_curr.y - p_prev.y) * (p_next.x - p_curr.x);
+
+    // A convex corner turns the same way the outline winds
+    return turn * this.getSignedArea(vertices) < 0 ? 360 - angle : angle;
+  }
+
+  // Unit vector bisecting the corner at a vertex, used to place angle labels
+  public getVertexBisector(shape: Shape, vertexIndex: number): { x: number; y: number } | null {
+    const { vertices } = shape;
+    const numVertices = vertices.length;
+    const p_curr = vertices[vertexIndex];
+    const p_prev = vertices[(vertexIndex - 1 + numVertices) % numVertices];
+    const p_next = vertices[(vertexIndex + 1) % numVertices];
+    const v_a = { x: p_prev.x - p_curr.x, y: p_prev.y - p_curr.y };
+    const v_b = { x: p_next.x - p_curr.x, y: p_next.y - p_curr.y };
+    const l_a = Math.hypot(v_a.x, v_a.y);
+    const l_b = Math.hypot(v_b.x, v_b.y);
+    if (l_a === 0 || l_b === 0) return null;
+
+    const bisector = { x: v_a.x / l_a + v_b.x / l_b, y: v_a.y / l_a + v_b.y / l_b };
+    const l_bi = Math.hypot(bisector.x, bisector.y);
+    if (l_bi === 0) return null;
+
+    return { x: bisector.x / l_bi, y: bisector.y / l_bi };
+  }
+
+  // Vertices with the corner at vertexIndex set to an exact interior angle (0-360). The
+  // edge towards the chosen neighbour turns about the vertex, keeping its length; only
+  // the segment beyond that neighbour changes. Null if an edge of the corner is degenerate.
+  public rotateCorner(
+    vertices: { x: number, y: number }[], vertexIndex: number, interiorAngleDeg: number, rotate: 'prev' | 'next'
+  ): { x: number, y: number }[] | null {
+    const numVertices = vertices.length;
+    const prevIndex = (vertexIndex - 1 + numVertices) % numVertices;
+    const nextIndex = (vertexIndex + 1) % numVertices;
+    const p_curr = vertices[vertexIndex];
+    const fixed = vertices[rotate === 'next' ? prevIndex : nextIndex];
+    const moving = vertices[rotate === 'next' ? nextIndex : prevIndex];
+
+    const l_fixed = Math.hypot(fixed.x - p_curr.x, fixed.y - p_curr.y);
+    const l_moving = Math.hypot(moving.x - p_curr.x, moving.y - p_curr.y);
+    const signedArea = this.getSignedArea(vertices);
+    if (l_fixed === 0 || l_moving === 0 || signedArea === 0) return null;
+
+    // Going from the previous edge to the next one, interior angles turn against the
+    // outline's winding; going the other way, with it
+    const windingSign = signedArea > 0 ? -1 : 1;
+    const angle = interiorAngleDeg * (Math.PI / 180) * windingSign * (rotate === 'next' ? 1 : -1);
+    const dir = { x: (fixed.x - p_curr.x) / l_fixed, y: (fixed.y - p_curr.y) / l_fixed };
+    const newVertices = [...vertices];
+    newVertices[rotate === 'next' ? nextIndex : prevIndex] = {
+      x: p_curr.x + (dir.x * Math.cos(angle) - dir.y * Math.sin(angle)) * l_moving,
+      y: p_curr.y + (dir.x * Math.sin(angle) + dir.y * Math.cos(angle)) * l_moving,
+    };
+    return newVertices;
+  }
+
+  // Area of the piece as drawn: fillets and curved segments included, cutouts removed
+  public getArea(shape: Shape): number {
+    return Math.max(0, this.getMoments(shape).area);
+  }
+
+  // Length of the outline as drawn, i.e. the finished edge of the piece
+  public getPerimeter(shape: Shape): number {
+    const outline = this.generateOutline(shape);
+    return outline.reduce((sum, p, i) => {
+      const q = outline[(i + 1) % outline.length];
+      return sum + this.arcLength(Math.hypot(q.x - p.x, q.y - p.y), p.bulge);
+    }, 0);
+  }
+
+  // Centre of area of the piece as drawn, or the mean vertex if it encloses no area
+  public getShapeCentroid(shape: Shape): { x: number; y: number } | null {
+    if (shape.vertices.length === 0) return null;
+    const { area, mx, my } = this.getMoments(shape);
+    if (area < 1e-9) {
+      return {
+        x: shape.vertices.reduce((sum, p) => sum + p.x, 0) / shape.vertices.length,
+        y: shape.vertices.reduce((sum, p) => sum + p.y, 0) / shape.vertices.length,
+      };
+    }
+    return { x: mx / area, y: my / area };
+  }
+
+  // Area-weighted centroid of the shapes, or the mean vertex if they have no area
+  public getCentroid(shapes: Shape[]): { x: number; y: number } | null {
+    const vertices = shapes.flatMap(shape => shape.vertices);
+    if (vertices.length === 0) return null;
+
+    let totalArea = 0;
+    let cx = 0;
+    let cy = 0;
+    shapes.forEach(shape => {
+      const area = this.getArea(shape);
+      const centroid = this.getShapeCentroid(shape);
+      if (area === 0 || !centroid) return;
+      cx += centroid.x * area;
+      cy += centroid.y * area;
+      totalArea += area;
+    });
+
+    if (totalArea === 0) {
+      return {
+        x: vertices.reduce((sum, p) => sum + p.x, 0) / vertices.length,
+        y: vertices.reduce((sum, p) => sum + p.y, 0) / vertices.length,
+      };
+    }
+    return { x: cx / totalArea, y: cy / totalArea };
+  }
+
+  // Area of the piece and its first moments about the axes: the outline, less the cutouts
+  private getMoments(shape: Shape): { area: number; mx: number; my: number } {
+    const outline = this.getOutlineMoments(shape);
+    const sign = outline.area < 0 ? -1 : 1;
+    let area = outline.area * sign;
+    let mx = outline.mx * sign;
+    let my = outline.my * sign;
+    // Every cutout is symmetric about its centre
+    shape.cutouts?.forEach(cutout => {
+      const frame = this.getCutoutFrame(shape, cutout);
+      if (!frame) return;
+      const cutoutArea = this.getCutoutArea(cutout);
+      area -= cutoutArea;
+      mx -= cutoutArea * frame.center.x;
+      my -= cutoutArea * frame.center.y;
+    });
+    return { area, mx, my };
+  }
+
+  // Signed area of the outline and its first moments about the axes: the polygon through
+  // the outline points, plus or minus the circular segment between each arc and its chord
+  private getOutlineMoments(shape: Shape): { area: number; mx: number; my: number } {
+    const outline = this.generateOutline(shape);
+    let area = 0;
+    let mx = 0;
+    let my = 0;
+    outline.forEach((p, i) => {
+      const q = outline[(i + 1) % outline.length];
+      const cross = p.x * q.y - q.x * p.y;
+      area += cross / 2;
+      mx += (p.x + q.x) * cross / 6;
+      my += (p.y + q.y) * cross / 6;
+
+      const chord = Math.hypot(q.x - p.x, q.y - p.y);
+      if (p.bulge === 0 || chord === 0) return;
+      const angle = 4 * Math.atan(Math.abs(p.bulge));
+      const radius = chord / (2 * Math.sin(angle / 2));
+      const segmentArea = radius * radius / 2 * (angle - Math.sin(angle));
+      // Same side convention as getShapeBounds: a positive bulge lies right of the chord
+      const sign = Math.sign(p.bulge);
+      const side = { x: (q.y - p.y) / chord * sign, y: -(q.x - p.x) / chord * sign };
+      const sagitta = Math.abs(p.bulge) * chord / 2;
+      const center = {
+        x: (p.x + q.x) / 2 - side.x * (radius - sagitta),
+        y: (p.y + q.y) / 2 - side.y * (radius - sagitta),
+      };
+      const offset = 4 * radius * Math.pow(Math.sin(angle / 2), 3) / (3 * (angle - Math.sin(angle)));
+      area += sign * segmentArea;
+      mx += sign * segmentArea * (center.x + side.x * offset);
+      my += sign * segmentArea * (center.y + side.y * offset);
+    });
+    return { area, mx, my };
+  }
+
+  // Outline and cutouts as one path, for drawing with the even-odd fill rule so the
+  // cutouts show as holes
+  public generateShapePathData(shape: Shape): string {
+    const outline = this.generatePathData(shape);
+    if (!outline) return '';
+    const holes = (shape.cutouts ?? []).map(cutout => this.generateCutoutPathData(shape, cutout)).filter(d => d);
+    return [`${outline} Z`, ...holes].join(' ');
+  }
+
+  public generateCutoutPathData(shape: Shape, cutout: Cutout): string {
+    const frame = this.getCutoutFrame(shape, cutout);
+    if (!frame) return '';
+    if (cutout.kind !== 'oval') {
+      return this.outlinePathData(this.getCutoutOutline(shape, cutout));
+    }
+    // SVG arcs can be elliptical, so ovals are drawn exactly here
+    const { center, axis } = frame;
+    const rx = cutout.width / 2;
+    const ry = cutout.height / 2;
+    const rotation = Math.atan2(axis.y, axis.x) * 180 / Math.PI;
+    const a = { x: center.x + axis.x * rx, y: center.y + axis.y * rx };
+    const b = { x: center.x - axis.x * rx, y: center.y - axis.y * rx };
+    return `M ${a.x} ${a.y} A ${rx} ${ry} ${rotation} 0 1 ${b.x} ${b.y} A ${rx} ${ry} ${rotation} 0 1 ${a.x} ${a.y} Z`;
+  }
+
+  // Centre of a cutout and the unit direction its width runs along, or null if its
+  // edges don't exist or are parallel
+  public getCutoutFrame(shape: Shape, cutout: Cutout): { center: { x: number; y: number }; axis: { x: number; y: number } } | null {
+    const n = shape.vertices.length;
+    if (cutout.edges.some(edge => !Number.isInteger(edge) || edge < 0 || edge >= n)) return null;
+
+    const lines = cutout.edges.map((edge, i) => {
+      const p = shape.vertices[edge];
+      const q = shape.vertices[(edge + 1) % n];
+      const length = Math.hypot(q.x - p.x, q.y - p.y);
+      if (length === 0) return null;
+      const d = { x: (q.x - p.x) / length, y: (q.y - p.y) / length };
+      const inward = this.getInwardNormal(shape, d);
+      return { point: { x: p.x + inward.x * cutout.distances[i], y: p.y + inward.y * cutout.distances[i] }, d };
+    });
+    const [first, second] = lines;
+    if (!first || !second) return null;
+
+    const cross = first.d.x * second.d.y - first.d.y * second.d.x;
+    if (Math.abs(cross) < 1e-6) return null;
+    const t = ((second.point.x - first.point.x) * second.d.y - (second.point.y - first.point.y) * second.d.x) / cross;
+    return {
+      center: { x: first.point.x + first.d.x * t, y: first.point.y + first.d.y * t },
+      axis: first.d,
+    };
+  }
+
+  // Distance from a segment's line to a point, positive on the inside of the shape
+  public getEdgeDistance(shape: Shape, segmentIndex: number, point: { x: number; y: number }): number {
+    const p = shape.vertices[segmentIndex];
+    const q = shape.vertices[(segmentIndex + 1) % shape.vertices.length];
+    const length = Math.hypot(q.x - p.x, q.y - p.y);
+    if (length === 0) return 0;
+    const inward = this.getInwardNormal(shape, { x: (q.x - p.x) / length, y: (q.y - p.y) / length });
+    return (point.x - p.x) * inward.x + (point.y - p.y) * inward.y;
+  }
+
+  // A cutout's boundary in the same form as generateOutline, wound the same way for
+  // every kind. Ovals aren't circular arcs, so they come out as a fine polyline.
+  public getCutoutOutline(shape: Shape, cutout: Cutout): OutlinePoint[] {
+    const frame = this.getCutoutFrame(shape, cutout);
+    if (!frame) return [];
+
+    const w = cutout.width / 2;
+    const h = cutout.height / 2;
+    let local: OutlinePoint[];
+    switch (cutout.kind) {
+      case 'circle':
+        local = [{ x: -w, y: 0, bulge: 1 }, { x: w, y: 0, bulge: 1 }];
+        break;
+      case 'oval':
+        local = Array.from({ length: OVAL_SEGMENTS }, (_, i) => {
+          const t = 2 * Math.PI * i / OVAL_SEGMENTS;
+          return { x: w * Math.cos(t), y: h * Math.sin(t), bulge: 0 };
+        });
+        break;
+      default: {
+        const r = cutout.kind === 'rounded' ? Math.min(cutout.cornerRadius, w, h) : 0;
+        if (r <= 0) {
+          local = [{ x: -w, y: -h, bulge: 0 }, { x: w, y: -h, bulge: 0 }, { x: w, y: h, bulge: 0 }, { x: -w, y: h, bulge: 0 }];
+          break;
         }
+        // Each side, then the quarter circle into the next one; sides the fillets
+        // consume entirely are left out
+        const quarter = Math.tan(Math.PI / 8);
+        local = [
+          { x: -w + r, y: -h, bulge: 0 }, { x: w - r, y: -h, bulge: quarter },
+          { x: w, y: -h + r, bulge: 0 }, { x: w, y: h - r, bulge: quarter },
+          { x: w - r, y: h, bulge: 0 }, { x: -w + r, y: h, bulge: quarter },
+          { x: -w, y: h - r, bulge: 0 }, { x: -w, y: -h + r, bulge: quarter },
+        ].filter((p, i, all) => {
+          const q = all[(i + 1) % all.length];
+          return p.bulge !== 0 || Math.hypot(q.x - p.x, q.y - p.y) > 1e-9;
+        });
       }
+    }
 
-      if (currentArc.radius > 0) {
-        const p_curr = vertices[i];
-        const p_prev = vertices[(i - 1 + numVertices) % numVertices];
-        const p_next = vertices[(i + 1) % numVertices];
+    const { center, axis } = frame;
+    return local.map(p => ({
+      x: center.x + axis.x * p.x - axis.y * p.y,
+      y: center.y + axis.y * p.x + axis.x * p.y,
+      bulge: p.bulge,
+    }));
+  }
 
-        const v_prev = { x: p_prev.x - p_curr.x, y: p_prev.y - p_curr.y };
-        const v_next = { x: p_next.x - p_curr.x, y: p_next.y - p_curr.y };
+  public getCutoutArea(cutout: Cutout): number {
+    const { width, height } = cutout;
+    switch (cutout.kind) {
+      case 'circle':
+      case 'oval':
+        return Math.PI * width * height / 4;
+      case 'rounded': {
+        const r = Math.min(cutout.cornerRadius, width / 2, height / 2);
+        return width * height - (4 - Math.PI) * r * r;
+      }
+      default:
+        return width * height;
+    }
+  }
+
+  // True if the cutout lies wholly inside the shape's outline as drawn
+  public isCutoutInside(shape: Shape, cutout: Cutout): boolean {
+    const boundary = this.flattenOutline(this.getCutoutOutline(shape, cutout));
+    if (boundary.length === 0) return false;
+    const outline = this.flattenOutline(this.generateOutline(shape));
+    const edgesCross = boundary.some((a1, i) => {
+      const a2 = boundary[(i + 1) % boundary.length];
+      return outline.some((b1, j) => this.segmentsIntersect(a1, a2, b1, outline[(j + 1) % outline.length]));
+    });
+    return !edgesCross && boundary.every(p => this.isPointInPolygon(p, outline));
+  }
 
-        const crossProduct = v_prev.x * v_next.y - v_prev.y * v_next.x;
-        const sweepFlag = crossProduct > 0 ? 0 : 1;
+  private getInwardNormal(shape: Shape, direction: { x: number; y: number }): { x: number; y: number } {
+    // The inside is on the left of every segment when the signed area is positive
+    const sign = this.getSignedArea(shape.vertices) < 0 ? -1 : 1;
+    return { x: -direction.y * sign, y: direction.x * sign };
+  }
 
-        path += ` A ${currentArc.radius} ${currentArc.radius} 0 0 ${sweepFlag} ${currentArc.p_arc_end.x} ${currentArc.p_arc_end.y}`;
+  private outlinePathData(outline: OutlinePoint[]): string {
+    if (outline.length === 0) return '';
+    let path = `M ${outline[0].x} ${outline[0].y}`;
+    outline.forEach((p, i) => {
+      const q = outline[(i + 1) % outline.length];
+      if (p.bulge === 0) {
+        path += ` L ${q.x} ${q.y}`;
+        return;
+      }
+      const chord = Math.hypot(q.x - p.x, q.y - p.y);
+      const radius = chord * (1 + p.bulge * p.bulge) / (4 * Math.abs(p.bulge));
+      const largeArc = Math.abs(p.bulge) > 1 ? 1 : 0;
+      path += ` A ${radius} ${radius} 0 ${largeArc} ${p.bulge > 0 ? 1 : 0} ${q.x} ${q.y}`;
+    });
+    return `${path} Z`;
+  }
+
+  public getFlattenedOutline(shape: Shape): { x: number; y: number }[] {
+    return this.flattenOutline(this.generateOutline(shape));
+  }
+
+  // Farthest any arc of the shape strays from the chords getFlattenedOutline splits it
+  // into, i.e. the sagitta of the widest chord
+  public getFlatteningError(shape: Shape): number {
+    const outline = this.generateOutline(shape);
+    return outline.reduce((max, p, i) => {
+      const q = outline[(i + 1) % outline.length];
+      const chord = Math.hypot(q.x - p.x, q.y - p.y);
+      if (p.bulge === 0 || chord === 0) return max;
+      const sweep = Math.abs(4 * Math.atan(p.bulge));
+      const radius = chord / (2 * Math.sin(sweep / 2));
+      return Math.max(max, radius * (1 - Math.cos(sweep / (2 * ARC_PIECES))));
+    }, 0);
+  }
+
+  // The outline as a plain polygon, with every arc split into short chords
+  private flattenOutline(outline: OutlinePoint[]): { x: number; y: number }[] {
+    return outline.flatMap((p, i) => {
+      const q = outline[(i + 1) % outline.length];
+      const chord = Math.hypot(q.x - p.x, q.y - p.y);
+      if (p.bulge === 0 || chord === 0) return [{ x: p.x, y: p.y }];
+
+      // A positive bulge sweeps the way angles grow, with the arc right of the chord
+      const sweep = 4 * Math.atan(p.bulge);
+      const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2));
+      const sign = Math.sign(p.bulge);
+      const side = { x: (q.y - p.y) / chord * sign, y: -(q.x - p.x) / chord * sign };
+      const sagitta = Math.abs(p.bulge) * chord / 2;
+      const center = {
+        x: (p.x + q.x) / 2 - side.x * (radius - sagitta),
+        y: (p.y + q.y) / 2 - side.y * (radius - sagitta),
+      };
+      const start = Math.atan2(p.y - center.y, p.x - center.x);
+      return Array.from({ length: ARC_PIECES }, (_, k) => ({
+        x: center.x + radius * Math.cos(start + sweep * k / ARC_PIECES),
+        y: center.y + radius * Math.sin(start + sweep * k / ARC_PIECES),
+      }));
+    });
+  }
+
+  public isPointInPolygon(point: { x: number; y: number }, polygon: { x: number; y: number }[]): boolean {
+    let inside = false;
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length];
+      if ((a.y > point.y) !== (b.y > point.y)
+        && point.x < a.x + (point.y - a.y) / (b.y - a.y) * (b.x - a.x)) {
+        inside = !inside;
+      }
+    });
+    return inside;
+  }
+
+  // Twice the signed area enclosed by the vertices; the sign gives the winding
+  private getSignedArea(vertices: { x: number, y: number }[]): number {
+    let area = 0;
+    vertices.forEach((p, i) => {
+      const q = vertices[(i + 1) % vertices.length];
+      area += p.x * q.y - q.x * p.y;
+    });
+    return area;
+  }
+
+  // True if no two segments of the closed outline cross or touch, other than
+  // neighbours meeting at their shared vertex
+  public isSimplePolygon(vertices: { x: number, y: number }[]): boolean {
+    const n = vertices.length;
+    for (let i = 0; i < n; i++) {
+      const a1 = vertices[i];
+      const a2 = vertices[(i + 1) % n];
+      if (a1.x === a2.x && a1.y === a2.y) return false;
+      for (let j = i + 1; j < n; j++) {
+        if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+        if (this.segmentsIntersect(a1, a2, vertices[j], vertices[(j + 1) % n])) return false;
       }
     }
+    return true;
+  }
 
-    return path;
+  public segmentsIntersect(
+    p1: { x: number, y: number }, p2: { x: number, y: number }, q1: { x: number, y: number }, q2: { x: number, y: number }
+  ): boolean {
+    const cross = (o: { x: number, y: number }, a: { x: number, y: number }, b: { x: number, y: number }) =>
+      (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+    const onSegment = (o: { x: number, y: number }, a: { x: number, y: number }, p: { x: number, y: number }) =>
+      Math.min(o.x, a.x) - 1e-9 <= p.x && p.x <= Math.max(o.x, a.x) + 1e-9
+      && Math.min(o.y, a.y) - 1e-9 <= p.y && p.y <= Math.max(o.y, a.y) + 1e-9;
+
+    const d1 = cross(q1, q2, p1);
+    const d2 = cross(q1, q2, p2);
+    const d3 = cross(p1, p2, q1);
+    const d4 = cross(p1, p2, q2);
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+      return true;
+    }
+    return (d1 === 0 && onSegment(q1, q2, p1))
+      || (d2 === 0 && onSegment(q1, q2, p2))
+      || (d3 === 0 && onSegment(p1, p2, q1))
+      || (d4 === 0 && onSegment(p1, p2, q2));
+  }
+
+  // Vertices with one segment set to an exact length. One end stays put and every vertex
+  // on the far side of the other end (measured along the segment) moves with it, so walls
+  // perpendicular to the segment keep their direction and length. Without an explicit
+  // anchor, the end that moves fewer vertices stays put. Returns null if the segment is
+  // degenerate or shortening it would fold the outline over itself.
+  public stretchSegment(
+    vertices: { x: number, y: number }[], segmentIndex: number, length: number, anchor?: 'start' | 'end'
+  ): { x: number, y: number }[] | null {
+    const numVertices = vertices.length;
+    const startIndex = segmentIndex;
+    const endIndex = (segmentIndex + 1) % numVertices;
+    const start = vertices[startIndex];
+    const end = vertices[endIndex];
+    if (!start || !end || length <= 0) return null;
+    const chord = Math.hypot(end.x - start.x, end.y - start.y);
+    if (chord === 0) return null;
+
+    const movingSide = (fixed: { x: number, y: number }, moving: { x: number, y: number }) => {
+      const dir = { x: (moving.x - fixed.x) / chord, y: (moving.y - fixed.y) / chord };
+      const projections = vertices.map(v => (v.x - fixed.x) * dir.x + (v.y - fixed.y) * dir.y);
+      const moves = projections.map(p => p >= chord - 1e-6);
+      return { dir, projections, moves, count: moves.filter(Boolean).length };
+    };
+
+    const fromStart = movingSide(start, end);
+    const fromEnd = movingSide(end, start);
+    const side = anchor === 'end' || (!anchor && fromEnd.count < fromStart.count) ? fromEnd : fromStart;
+
+    // Shortening may not sweep the moving side past a vertex that stays
+    const delta = length - chord;
+    if (delta < 0 && side.projections.some((p, i) => !side.moves[i] && p > length + 1e-6)) {
+      return null;
+    }
+
+    return vertices.map((v, i) =>
+      side.moves[i] ? { x: v.x + side.dir.x * delta, y: v.y + side.dir.y * delta } : v
+    );
   }
 
-  public generateOrthogonalPipeVertices(path: { x: number, y: number }[], thickness: number): { x: number, y: number }[] {
+  // `thickness` is either one depth for the whole pipe or one depth per leg (path segment)
+  public generateOrthogonalPipeVertices(path: { x: number, y: number }[], thickness: number | number[]): { x: number, y: number }[] {
     if (path.length < 2) {
       return [];
     }
 
-    const halfThick = thickness / 2;
+    const halfThickOf = (leg: number) => {
+      if (!Array.isArray(thickness)) return thickness / 2;
+      return (thickness[Math.max(0, Math.min(leg, thickness.length - 1))] ?? 0) / 2;
+    };
     const rightPoints: { x: number, y: number }[] = [];
     const leftPoints: { x: number, y: number }[] = [];
 
@@ -103,6 +845,8 @@ export class GeometryService {
       const p_curr = path[i];
       const p_prev = i > 0 ? path[i - 1] : p_curr;
       const p_next = i < path.length - 1 ? path[i + 1] : p_curr;
+      const halfThickIn = halfThickOf(i - 1);
+      const halfThickOut = halfThickOf(i);
 
       const v_in = { x: p_curr.x - p_prev.x, y: p_curr.y - p_prev.y };
       const l_in = Math.hypot(v_in.x, v_in.y);
@@ -116,31 +860,93 @@ export class GeometryService {
       const n_out = { x: -norm_out.y, y: norm_out.x };
 
       if (i === 0) { // Start cap
-        rightPoints.push({ x: p_curr.x + n_out.x * halfThick, y: p_curr.y + n_out.y * halfThick });
-        leftPoints.push({ x: p_curr.x - n_out.x * halfThick, y: p_curr.y - n_out.y * halfThick });
+        rightPoints.push({ x: p_curr.x + n_out.x * halfThickOut, y: p_curr.y + n_out.y * halfThickOut });
+        leftPoints.push({ x: p_curr.x - n_out.x * halfThickOut, y: p_curr.y - n_out.y * halfThickOut });
         continue;
       }
 
       if (i === path.length - 1) { // End cap
-        rightPoints.push({ x: p_curr.x + n_in.x * halfThick, y: p_curr.y + n_in.y * halfThick });
-        leftPoints.push({ x: p_curr.x - n_in.x * halfThick, y: p_curr.y - n_in.y * halfThick });
+        rightPoints.push({ x: p_curr.x + n_in.x * halfThickIn, y: p_curr.y + n_in.y * halfThickIn });
+        leftPoints.push({ x: p_curr.x - n_in.x * halfThickIn, y: p_curr.y - n_in.y * halfThickIn });
         continue;
       }
 
       const crossProduct = norm_in.x * norm_out.y - norm_in.y * norm_out.x;
 
       if (Math.abs(crossProduct) < 0.1) { // Straight line, no turn
-        rightPoints.push({ x: p_curr.x + n_in.x * halfThick, y: p_curr.y + n_in.y * halfThick });
-        leftPoints.push({ x: p_curr.x - n_in.x * halfThick, y: p_curr.y - n_in.y * halfThick });
-      } else if (crossProduct > 0) { // Turning "left"
-        rightPoints.push({ x: p_curr.x + (n_in.x + n_out.x) * halfThick, y: p_curr.y + (n_in.y + n_out.y) * halfThick });
-        leftPoints.push({ x: p_curr.x - (n_in.x + n_out.x) * halfThick, y: p_curr.y - (n_in.y + n_out.y) * halfThick });
-      } else { // Turning "right"
-        leftPoints.push({ x: p_curr.x - (n_in.x + n_out.x) * halfThick, y: p_curr.y - (n_in.y + n_out.y) * halfThick });
-        rightPoints.push({ x: p_curr.x + (n_in.x + n_out.x) * halfThick, y: p_curr.y + (n_in.y + n_out.y) * halfThick });
+        rightPoints.push({ x: p_curr.x + n_in.x * halfThickIn, y: p_curr.y + n_in.y * halfThickIn });
+        leftPoints.push({ x: p_curr.x - n_in.x * halfThickIn, y: p_curr.y - n_in.y * halfThickIn });
+        if (Math.abs(halfThickIn - halfThickOut) > 1e-9) { // Step between legs of different depth
+          rightPoints.push({ x: p_curr.x + n_out.x * halfThickOut, y: p_curr.y + n_out.y * halfThickOut });
+          leftPoints.push({ x: p_curr.x - n_out.x * halfThickOut, y: p_curr.y - n_out.y * halfThickOut });
+        }
+      } else { // Turn: the offset edges of both legs meet at the outer and inner corners
+        rightPoints.push({
+          x: p_curr.x + n_in.x * halfThickIn + n_out.x * halfThickOut,
+          y: p_curr.y + n_in.y * halfThickIn + n_out.y * halfThickOut,
+        });
+        leftPoints.push({
+          x: p_curr.x - n_in.x * halfThickIn - n_out.x * halfThickOut,
+          y: p_curr.y - n_in.y * halfThickIn - n_out.y * halfThickOut,
+        });
       }
     }
 
     return rightPoints.concat(leftPoints.reverse());
   }
+
+  // Moves one leg of a pipe centerline sideways; the legs on either side stretch to follow
+  public offsetPipeLeg(centerline: { x: number, y: number }[], legIndex: number, offset: { x: number, y: number }): { x: number, y: number }[] {
+    return centerline.map((point, i) =>
+      i === legIndex || i === legIndex + 1
+        ? { x: point.x + offset.x, y: point.y + offset.y }
+        : point
+    );
+  }
+
+  // Sets the length of one leg, shifting every later point along the leg direction
+  // so the remaining legs keep their lengths
+  public resizePipeLeg(centerline: { x: number, y: number }[], legIndex: number, length: number): { x: number, y: number }[] | null {
+    const p1 = centerline[legIndex];
+    const p2 = centerline[legIndex + 1];
+    if (!p1 || !p2 || length <= 0) return null;
+    const currentLength = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    if (currentLength === 0) return null;
+
+    const delta = length - currentLength;
+    const shift = { x: (p2.x - p1.x) / currentLength * delta, y: (p2.y - p1.y) / currentLength * delta };
+    return centerline.map((point, i) =>
+      i > legIndex ? { x: point.x + shift.x, y: point.y + shift.y } : point
+    );
+  }
+
+  // Turns a leg by 90° around its start point, carrying all later legs with it.
+  // Direction 1 turns clockwise on screen, -1 counter-clockwise.
+  public turnPipeLeg(centerline: { x: number, y: number }[], legIndex: number, direction: 1 | -1): { x: number, y: number }[] {
+    const pivot = centerline[legIndex];
+    if (!pivot) return centerline;
+
+    return centerline.map((point, i) => {
+      if (i <= legIndex) return point;
+      const dx = point.x - pivot.x;
+      const dy = point.y - pivot.y;
+      return { x: pivot.x - dy * direction, y: pivot.y + dx * direction };
+    });
+  }
+
+  // Moves an open end of the centerline along its leg, lengthening or shortening that leg only
+  public movePipeEnd(centerline: { x: number, y: number }[], end: 'start' | 'end', position: { x: number, y: number }): { x: number, y: number }[] {
+    const endIndex = end === 'start' ? 0 : centerline.length - 1;
+    const anchor = centerline[end === 'start' ? 1 : centerline.length - 2];
+    const current = centerline[endIndex];
+    const length = Math.hypot(current.x - anchor.x, current.y - anchor.y);
+    if (length === 0) return centerline;
+
+    const dir = { x: (current.x - anchor.x) / length, y: (current.y - anchor.y) / length };
+    // Keep a minimal leg so the end cannot fold back over the anchor
+    const newLength = Math.max(1, (position.x - anchor.x) * dir.x + (position.y - anchor.y) * dir.y);
+    const newCenterline = [...centerline];
+    newCenterline[endIndex] = { x: anchor.x + dir.x * newLength, y: anchor.y + dir.y * newLength };
+    return newCenterline;
+  }
 }
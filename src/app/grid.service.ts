@@ -0,0 +1,111 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import Konva from 'konva';
+import { Subscription, merge } from 'rxjs';
+import { DrawingSettings, DrawingStateService } from './drawing-state.service';
+import { UnitsService } from './units.service';
+import { ViewportService } from './viewport.service';
+
+const MIN_GRID_SCREEN_SPACING = 8; // Denser grids are drawn every few lines instead
+const MAJOR_LINE_EVERY = 10;
+
+// Background grid and snap-to-grid. The grid spacing is a real-world length, so it
+// follows the document scale; holding Shift temporarily inverts snapping.
+@Injectable({
+  providedIn: 'root'
+})
+export class GridService implements OnDestroy {
+  private stage: Konva.Stage | undefined;
+  private layer: Konva.Layer | undefined;
+  private subscription: Subscription | undefined;
+  private isShiftPressed = false;
+  private readonly trackShift = (e: KeyboardEvent) => this.isShiftPressed = e.shiftKey;
+
+  constructor(
+    private stateSvc: DrawingStateService,
+    private unitsSvc: UnitsService,
+    private viewportSvc: ViewportService
+  ) { }
+
+  public initialize(stage: Konva.Stage, layer: Konva.Layer): void {
+    this.stage = stage;
+    this.layer = layer;
+    window.addEventListener('keydown', this.trackShift);
+    window.addEventListener('keyup', this.trackShift);
+
+    this.subscription = merge(this.stateSvc.state$, this.viewportSvc.changes$)
+      .subscribe(() => this.render());
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+    window.removeEventListener('keydown', this.trackShift);
+    window.removeEventListener('keyup', this.trackShift);
+  }
+
+  public get isSnapActive(): boolean {
+    return this.settings.snapToGrid !== this.isShiftPressed;
+  }
+
+  // Grid spacing in canvas pixels
+  public get spacing(): number {
+    return this.unitsSvc.mmToPx(this.settings.gridSpacingMm);
+  }
+
+  public snapValue(value: number): number {
+    if (!this.isSnapActive) return value;
+    return Math.round(value / this.spacing) * this.spacing;
+  }
+
+  public snapPoint(point: { x: number; y: number }): { x: number; y: number } {
+    return { x: this.snapValue(point.x), y: this.snapValue(point.y) };
+  }
+
+  private get settings(): DrawingSettings {
+    return this.stateSvc.getState().settings;
+  }
+
+  private render(): void {
+    const stage = this.stage;
+    const layer = this.layer;
+    if (!stage || !layer) return;
+
+    layer.destroyChildren();
+    if (!this.settings.showGrid) {
+      layer.batchDraw();
+      return;
+    }
+
+    const scale = stage.scaleX();
+    let step = this.spacing;
+    let major = step * MAJOR_LINE_EVERY;
+    while (step * scale < MIN_GRID_SCREEN_SPACING) {
+      step *= MAJOR_LINE_EVERY;
+      major *= MAJOR_LINE_EVERY;
+    }
+
+    // Only the part of the world that is on screen
+    const left = -stage.x() / scale;
+    const top = -stage.y() / scale;
+    const right = left + stage.width() / scale;
+    const bottom = top + stage.height() / scale;
+
+    const addLine = (points: number[], value: number) => {
+      const isMajor = Math.abs(value / major - Math.round(value / major)) < 1e-6;
+      layer.add(new Konva.Line({
+        points,
+        stroke: isMajor ? '#D6D3D1' : '#F0EEEC',
+        strokeWidth: 1 / scale,
+        listening: false,
+      }));
+    };
+
+    for (let x = Math.floor(left / step) * step; x <= right; x += step) {
+      addLine([x, top, x, bottom], x);
+    }
+    for (let y = Math.floor(top / step) * step; y <= bottom; y += step) {
+      addLine([left, y, right, y], y);
+    }
+
+    layer.batchDraw();
+  }
+}
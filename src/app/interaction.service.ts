@@ -1,7 +1,20 @@
 import { Injectable, OnDestroy } from '@angular/core';
 import Konva from 'konva';
-import { DrawingStateService } from './drawing-state.service';
+import { ConstraintSolverService } from './constraint-solver.service';
+import { ContextMenuService } from './context-menu.service';
+import { DimensionEditorService } from './dimension-editor.service';
+import { DrawingDocument, DrawingDocumentError, DrawingDocumentService } from './drawing-document.service';
+import { DrawingStateService, EDGE_TYPE_LABELS, EdgeFinish, EdgeType, Shape, ShapeEditError } from './drawing-state.service';
 import { GeometryService } from './geometry.service';
+import { GridService } from './grid.service';
+import { KonvaRendererService } from './konva-renderer.service';
+import { NoticeService } from './notice.service';
+import { ObjectSnapResult, ObjectSnapService } from './object-snap.service';
+import { UnitsService } from './units.service';
+import { ViewportService } from './viewport.service';
+
+// Usual upstand height offered for a new backsplash
+const DEFAULT_BACKSPLASH_HEIGHT_MM = 100;
 
 @Injectable({
   providedIn: 'root',
@@ -14,24 +27,55 @@ export class InteractionService implements OnDestroy {
   private dragStartPos: { x: number; y: number } | null = null;
   private shapeStartPoints: Array<{ x: number; y: number }> | null = null;
   private midpointDragInfo: { isHorizontal: boolean } | null = null;
+  private pipeDragCenterline: { x: number; y: number }[] | null = null;
   
   // Shape moving properties
   private isDraggingShape = false;
-  private draggedShapeId: string | null = null;
+  private draggedShapeIds: string[] = [];
   private shapeDragStartPos: { x: number; y: number } | null = null;
+  private shapeDragOrigin: { x: number; y: number } | null = null; // First vertex when the drag started
+  private selectionBoxStart: { x: number; y: number } | null = null;
+  private pivotMarker: Konva.Group | undefined;
+  // Last copy, in the drawing file format, for when the system clipboard can't be used
+  private clipboardJson: string | null = null;
+  private pasteCount = 0; // Pastes since the last copy, each one stepped further away
+  private isPointerOverStage = false;
+  private selectionBox: Konva.Rect | undefined;
 
   // Pipe drawing properties
   private isDrawingPipe = false;
   private pipeCenterline: { x: number; y: number }[] = [];
+  private pipeLegDepths: number[] = []; // One per leg of pipeCenterline, the last one being the live leg
+  private previewCenterline: { x: number; y: number }[] = [];
   private lastDirection: 'H' | 'V' | 'none' = 'none';
   private previewPipe: Konva.Line | undefined;
   private previewLabels: Konva.Text[] = [];
-  private readonly PIPE_THICKNESS = 150;
+  public pipeDepthMm = 150; // Depth for new legs, chosen in the toolbar
+  // Point picked on the canvas to rotate and mirror about; null uses the selection's own
+  public rotationPivot: { x: number; y: number } | null = null;
+  public isPickingPivot = false;
+  // Seam tool: the next drag draws the line a shape is cut along
+  public isDrawingSeam = false;
+  private seamStart: { x: number; y: number } | null = null;
+  private seamPreview: Konva.Line | undefined;
+  private angleRotateEdge: 'prev' | 'next' = 'next'; // Edge that turns when an angle is typed, as last chosen
+  private lengthAnchor: 'auto' | 'start' | 'end' = 'auto'; // End that stays put when a length is typed, as last chosen
+  private readonly PIPE_DEPTH_STEP_MM = 50;
   private readonly TURN_THRESHOLD = 150; // Pixels to move on the other axis to register a turn
 
   constructor(
     private stateSvc: DrawingStateService,
-    private geometrySvc: GeometryService
+    private geometrySvc: GeometryService,
+    private unitsSvc: UnitsService,
+    private rendererSvc: KonvaRendererService,
+    private viewportSvc: ViewportService,
+    private gridSvc: GridService,
+    private objectSnapSvc: ObjectSnapService,
+    private editorSvc: DimensionEditorService,
+    private solverSvc: ConstraintSolverService,
+    private documentSvc: DrawingDocumentService,
+    private menuSvc: ContextMenuService,
+    private noticeSvc: NoticeService
   ) {}
 
   public initialize(stage: Konva.Stage, layer: Konva.Layer): void {
@@ -39,6 +83,8 @@ export class InteractionService implements OnDestroy {
     this.layer = layer;
     this.updateHandlers();
     this.attachStageHandlers();
+    stage.container().addEventListener('mouseenter', () => this.isPointerOverStage = true);
+    stage.container().addEventListener('mouseleave', () => this.isPointerOverStage = false);
     window.addEventListener('keydown', this.handleKeyDown.bind(this));
   }
 
@@ -54,22 +100,155 @@ export class InteractionService implements OnDestroy {
     this.attachMidpointHandlers();
     this.attachLabelHandlers();
     this.attachAngleLabelHandlers();
+    this.attachLegHandlers();
+    this.attachLegLabelHandlers();
+    this.attachPipeEndHandlers();
   }
 
   private handleKeyDown(e: KeyboardEvent): void {
     if (e.key === 'Escape' && this.isDrawingPipe) {
       this.cancelDrawing();
     }
+    if (e.key === 'Escape' && this.isPickingPivot) {
+      this.clearRotationPivot();
+      if (this.stage) this.stage.container().style.cursor = 'default';
+    }
+    if (e.key === 'Escape' && this.isDrawingSeam) {
+      this.cancelSeam();
+    }
+
+    // +/- change the depth of the leg being drawn
+    if (this.isDrawingPipe && (e.key === '+' || e.key === '=' || e.key === '-')) {
+      e.preventDefault();
+      const step = this.unitsSvc.mmToPx(this.PIPE_DEPTH_STEP_MM) * (e.key === '-' ? -1 : 1);
+      const lastLeg = this.pipeLegDepths.length - 1;
+      this.pipeLegDepths[lastLeg] = Math.max(Math.abs(step), this.pipeLegDepths[lastLeg] + step);
+      this.renderPipePreview();
+      return;
+    }
+
+    // Leave native undo to text inputs
+    if (this.viewportSvc.isEditableTarget(e.target)) return;
+
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+      e.preventDefault();
+      // Don't rewrite history in the middle of a gesture
+      if (this.isDrawingPipe || this.isDraggingShape || this.dragStartPos) return;
+
+      if (key === 'y' || e.shiftKey) {
+        this.stateSvc.redo();
+      } else {
+        this.stateSvc.undo();
+      }
+    }
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && !e.ctrlKey && !e.metaKey) {
+      if (this.isDrawingPipe || this.isDraggingShape || this.dragStartPos) return;
+      const selectedIds = this.stateSvc.getState().selectedShapeIds;
+      if (selectedIds.length === 0) return;
+      e.preventDefault();
+      this.editorSvc.close();
+      this.menuSvc.close();
+      this.stateSvc.deleteShapes(selectedIds);
+      return;
+    }
+
+    if ((e.ctrlKey || e.metaKey) && (key === 'c' || key === 'v' || key === 'd')) {
+      if (this.isDrawingPipe || this.isDraggingShape || this.dragStartPos) return;
+      // Leave copying page text to the browser when nothing is selected
+      const selectedIds = this.stateSvc.getState().selectedShapeIds;
+      if (key === 'c' && selectedIds.length === 0) return;
+
+      e.preventDefault();
+      if (key === 'c') {
+        this.copySelection();
+      } else if (key === 'v') {
+        this.paste();
+      } else {
+        const offset = this.gridSvc.spacing;
+        this.stateSvc.duplicateShapes(selectedIds, offset, offset);
+      }
+    }
+  }
+
+  // Copies the selected shapes as a drawing document, so they can be pasted into
+  // another tab or drawing; the settings travel along to keep their real size
+  private copySelection(): void {
+    const state = this.stateSvc.getState();
+    const shapes = state.shapes.filter(shape => state.selectedShapeIds.includes(shape.id));
+    if (shapes.length === 0) return;
+
+    this.clipboardJson = this.documentSvc.serialize({ ...state, shapes });
+    this.pasteCount = 0;
+    navigator.clipboard?.writeText(this.clipboardJson).catch(() => {
+      // Without clipboard permission the copy still works within this tab
+    });
+  }
+
+  // Pastes at the pointer when it is over the canvas, otherwise one grid step further
+  // from the copied shapes with every paste
+  private paste(): void {
+    const readClipboard = navigator.clipboard
+      ? navigator.clipboard.readText().catch(() => null)
+      : Promise.resolve(null);
+    readClipboard.then(text => {
+      // Text that isn't a drawing falls back to the last copy made here
+      const fromClipboard = text ? this.parseDrawing(text) : null;
+      if (fromClipboard && text !== this.clipboardJson) {
+        this.clipboardJson = text;
+        this.pasteCount = 0;
+      }
+      const doc = fromClipboard ?? (this.clipboardJson ? this.parseDrawing(this.clipboardJson) : null);
+      if (!doc || doc.shapes.length === 0) return;
+
+      // Keep the real-world size when the drawings use different scales
+      const scale = doc.settings.mmPerPixel / this.stateSvc.getState().settings.mmPerPixel;
+      const boxes = doc.shapes
+        .map(shape => this.geometrySvc.getShapeBounds(shape))
+        .filter(bounds => bounds !== null);
+      if (boxes.length === 0) return;
+      const left = Math.min(...boxes.map(b => b.x)) * scale;
+      const top = Math.min(...boxes.map(b => b.y)) * scale;
+      const right = Math.max(...boxes.map(b => b.x + b.width)) * scale;
+      const bottom = Math.max(...boxes.map(b => b.y + b.height)) * scale;
+
+      const pointer = this.isPointerOverStage ? this.viewportSvc.getPointerPosition() : null;
+      let dx: number;
+      let dy: number;
+      if (pointer) {
+        // Centered on the pointer, with its top-left corner snapped
+        const corner = this.snapPoint({ x: pointer.x - (right - left) / 2, y: pointer.y - (bottom - top) / 2 }, []);
+        dx = corner.x - left;
+        dy = corner.y - top;
+      } else {
+        this.pasteCount++;
+        dx = dy = this.gridSvc.spacing * this.pasteCount;
+      }
+      this.stateSvc.insertShapes(doc.shapes, dx, dy, scale);
+    });
+  }
+
+  private parseDrawing(json: string): DrawingDocument | null {
+    try {
+      return this.documentSvc.parse(json);
+    } catch (error) {
+      if (!(error instanceof DrawingDocumentError)) throw error;
+      return null;
+    }
   }
 
   private cancelDrawing(): void {
     this.isDrawingPipe = false;
     this.pipeCenterline = [];
+    this.pipeLegDepths = [];
+    this.previewCenterline = [];
     this.lastDirection = 'none';
     this.previewPipe?.destroy();
     this.previewPipe = undefined;
     this.previewLabels.forEach(label => label.destroy());
     this.previewLabels = [];
+    this.objectSnapSvc.clearGuides();
     this.layer?.batchDraw();
   }
 
@@ -79,6 +258,33 @@ export class InteractionService implements OnDestroy {
     if (!stage || !layer) return;
 
     stage.on('mousedown touchstart', (e) => {
+      // Panning or pinching moves the view, not the drawing
+      if (this.viewportSvc.isNavigating) return;
+
+      if (this.isPickingPivot) {
+        const pointerPos = this.viewportSvc.getPointerPosition();
+        if (pointerPos) {
+          this.setRotationPivot(this.snapPoint(pointerPos, []));
+        }
+        return;
+      }
+
+      if (this.isDrawingSeam) {
+        const pointerPos = this.viewportSvc.getPointerPosition();
+        if (!pointerPos) return;
+        this.seamStart = this.snapPoint(pointerPos, []);
+        this.seamPreview = new Konva.Line({
+          points: [this.seamStart.x, this.seamStart.y, this.seamStart.x, this.seamStart.y],
+          stroke: '#DC2626',
+          strokeWidth: 2 / this.viewportSvc.scale,
+          dash: [6 / this.viewportSvc.scale, 6 / this.viewportSvc.scale],
+          name: 'seam-preview',
+          listening: false,
+        });
+        layer.add(this.seamPreview);
+        return;
+      }
+
       // Check if clicked on handles (vertex or midpoint) - let them handle themselves
       if (e.target.hasName && (e.target.hasName('vertex-handle') || e.target.hasName('midpoint-handle') || e.target.hasName('segment-label'))) {
         return; // Let the handle event handlers take care of this
@@ -88,13 +294,28 @@ export class InteractionService implements OnDestroy {
       if (e.target.hasName && e.target.hasName('shape')) {
         const shapeId = e.target.getAttr('shapeId');
         if (shapeId) {
-          this.stateSvc.selectShape(shapeId);
+          // Ctrl (Cmd on a Mac) adds the shape to the selection or takes it out. Not Shift:
+          // that already turns grid snapping on and off
+          if (e.evt.ctrlKey || e.evt.metaKey) {
+            this.stateSvc.toggleShapeSelection(shapeId);
+            return;
+          }
+
+          // Alt-dragging a selected shape moves the whole selection
+          const selectedIds = this.stateSvc.getState().selectedShapeIds;
+          if (!(e.evt.altKey && selectedIds.includes(shapeId))) {
+            this.stateSvc.selectShape(shapeId);
+          }
           
           // Check if Alt key is pressed for moving the shape
           if (e.evt.altKey) {
+            // The whole drag is recorded as a single undo step
+            this.stateSvc.beginHistoryGroup();
             this.isDraggingShape = true;
-            this.draggedShapeId = shapeId;
-            this.shapeDragStartPos = stage.getPointerPosition();
+            // The shape under the pointer goes first: it leads the drag
+            this.draggedShapeIds = [shapeId, ...this.stateSvc.getState().selectedShapeIds.filter(id => id !== shapeId)];
+            this.shapeDragStartPos = this.viewportSvc.getPointerPosition();
+            this.shapeDragOrigin = this.stateSvc.getState().shapes.find(s => s.id === shapeId)?.vertices[0] ?? null;
             stage.container().style.cursor = 'grabbing';
             return;
           }
@@ -108,15 +329,35 @@ export class InteractionService implements OnDestroy {
       if (e.evt.altKey) return;
       
       e.evt.preventDefault();
+
+      // Ctrl-dragging on an empty area adds the shapes inside a box to the selection
+      if (e.evt.ctrlKey || e.evt.metaKey) {
+        this.selectionBoxStart = this.viewportSvc.getPointerPosition();
+        if (!this.selectionBoxStart) return;
+        this.selectionBox = new Konva.Rect({
+          ...this.selectionBoxStart,
+          width: 0,
+          height: 0,
+          fill: 'rgba(14, 165, 233, 0.1)',
+          stroke: '#0EA5E9',
+          strokeWidth: 1 / this.viewportSvc.scale,
+          dash: [4 / this.viewportSvc.scale, 4 / this.viewportSvc.scale],
+          listening: false,
+        });
+        layer.add(this.selectionBox);
+        return;
+      }
       
       // Deselect current shape when clicking on empty area
       this.stateSvc.selectShape(null);
 
       this.isDrawingPipe = true;
-      const pos = stage.getPointerPosition();
-      if (!pos) return;
+      const pointerPos = this.viewportSvc.getPointerPosition();
+      if (!pointerPos) return;
+      const pos = this.snapPoint(pointerPos, []);
 
       this.pipeCenterline = [pos];
+      this.pipeLegDepths = [this.unitsSvc.mmToPx(this.pipeDepthMm)];
       this.lastDirection = 'none';
 
       this.previewPipe = new Konva.Line({
@@ -129,16 +370,56 @@ export class InteractionService implements OnDestroy {
     });
 
     stage.on('mousemove touchmove', (e) => {
-      // Handle shape dragging
-      if (this.isDraggingShape && this.draggedShapeId && this.shapeDragStartPos) {
-        const currentPos = stage.getPointerPosition();
+      // A second finger turns the gesture into a pinch
+      if (this.viewportSvc.isNavigating) {
+        if (this.isDrawingPipe) this.cancelDrawing();
+        if (this.seamStart) this.cancelSeam();
+        return;
+      }
+
+      if (this.seamStart && this.seamPreview) {
+        const currentPos = this.viewportSvc.getPointerPosition();
         if (!currentPos) return;
-        
-        const dx = currentPos.x - this.shapeDragStartPos.x;
-        const dy = currentPos.y - this.shapeDragStartPos.y;
-        
-        this.stateSvc.moveShape(this.draggedShapeId, dx, dy);
-        this.shapeDragStartPos = currentPos;
+        const end = this.snapPoint(currentPos, []);
+        this.seamPreview.points([this.seamStart.x, this.seamStart.y, end.x, end.y]);
+        layer.batchDraw();
+        return;
+      }
+
+      if (this.selectionBoxStart && this.selectionBox) {
+        const currentPos = this.viewportSvc.getPointerPosition();
+        if (!currentPos) return;
+        this.selectionBox.setAttrs({
+          x: Math.min(this.selectionBoxStart.x, currentPos.x),
+          y: Math.min(this.selectionBoxStart.y, currentPos.y),
+          width: Math.abs(currentPos.x - this.selectionBoxStart.x),
+          height: Math.abs(currentPos.y - this.selectionBoxStart.y),
+        });
+        layer.batchDraw();
+        return;
+      }
+
+      // Handle shape dragging
+      if (this.isDraggingShape && this.draggedShapeIds.length && this.shapeDragStartPos && this.shapeDragOrigin) {
+        const currentPos = this.viewportSvc.getPointerPosition();
+        const shapes = this.stateSvc.getState().shapes.filter(s => this.draggedShapeIds.includes(s.id));
+        const shape = shapes.find(s => s.id === this.draggedShapeIds[0]);
+        if (!currentPos || !shape) return;
+
+        // Where the pointer would put the shapes, before snapping
+        const offset = {
+          x: this.shapeDragOrigin.x + currentPos.x - this.shapeDragStartPos.x - shape.vertices[0].x,
+          y: this.shapeDragOrigin.y + currentPos.y - this.shapeDragStartPos.y - shape.vertices[0].y,
+        };
+        const points = shapes.flatMap(s => s.vertices.map(v => ({ x: v.x + offset.x, y: v.y + offset.y })));
+        const snap = this.snapPoints(points, this.draggedShapeIds);
+        const dx = offset.x + snap.dx;
+        const dy = offset.y + snap.dy;
+        if (dx !== 0 || dy !== 0) {
+          this.stateSvc.moveShapes(this.draggedShapeIds, dx, dy);
+          // Re-rendering the shape drew it over the guides
+          this.objectSnapSvc.showGuides(snap.result, points, snap.dx, snap.dy);
+        }
         return;
       }
       
@@ -152,8 +433,9 @@ export class InteractionService implements OnDestroy {
       
       e.evt.preventDefault();
 
-      const mousePos = stage.getPointerPosition();
-      if (!mousePos) return;
+      const pointerPos = this.viewportSvc.getPointerPosition();
+      if (!pointerPos) return;
+      const mousePos = this.snapPoint(pointerPos, []);
 
       const anchorPoint = this.pipeCenterline[this.pipeCenterline.length - 1];
       if (!anchorPoint) return;
@@ -178,6 +460,7 @@ export class InteractionService implements OnDestroy {
           const turnPoint = { x: anchorPoint.x, y: mousePos.y };
           if (turnPoint.x !== anchorPoint.x || turnPoint.y !== anchorPoint.y) {
             this.pipeCenterline.push(turnPoint);
+            this.pipeLegDepths.push(this.pipeLegDepths[this.pipeLegDepths.length - 1]);
           }
           // Now continue horizontally from the turn point
           endPoint = { x: mousePos.x, y: mousePos.y };
@@ -191,6 +474,7 @@ export class InteractionService implements OnDestroy {
           const turnPoint = { x: mousePos.x, y: anchorPoint.y };
           if (turnPoint.x !== anchorPoint.x || turnPoint.y !== anchorPoint.y) {
             this.pipeCenterline.push(turnPoint);
+            this.pipeLegDepths.push(this.pipeLegDepths[this.pipeLegDepths.length - 1]);
           }
           // Now continue vertically from the turn point
           endPoint = { x: mousePos.x, y: mousePos.y };
@@ -205,49 +489,38 @@ export class InteractionService implements OnDestroy {
         endPoint.y - lastPoint.y
       );
       if (dist < 5) {
+        this.previewCenterline = [];
         this.previewPipe?.points([]);
         layer.batchDraw();
         return;
       }
 
-      const previewPath = [...this.pipeCenterline, endPoint];
-      const vertices = this.geometrySvc.generateOrthogonalPipeVertices(
-        previewPath,
-        this.PIPE_THICKNESS
-      );
-      const flatPoints = vertices.flatMap((p) => [p.x, p.y]);
-
-      if (this.previewPipe) {
-        this.previewPipe.points(flatPoints);
-      }
-      
-      // Update preview labels
-      this.updatePreviewLabels(previewPath);
-      
-      layer.batchDraw();
+      this.previewCenterline = [...this.pipeCenterline, endPoint];
+      this.renderPipePreview();
     });
 
     stage.on('mouseup touchend', (e) => {
+      if (this.seamStart) {
+        this.finishSeam();
+        return;
+      }
+
+      if (this.selectionBoxStart) {
+        this.finishBoxSelection();
+        return;
+      }
+
       // Handle end of shape dragging
       if (this.isDraggingShape) {
-        this.isDraggingShape = false;
-        this.draggedShapeId = null;
-        this.shapeDragStartPos = null;
-        stage.container().style.cursor = 'default';
+        this.endShapeDrag();
         return;
       }
       
       if (!this.isDrawingPipe) return;
       e.evt.preventDefault();
 
-      const finalPath = this.previewPipe?.points() || [];
-      const finalVertices = [];
-      for (let i = 0; i < finalPath.length; i += 2) {
-        finalVertices.push({ x: finalPath[i], y: finalPath[i + 1] });
-      }
-
-      if (finalVertices.length > 3) {
-        this.stateSvc.setNewShape(finalVertices);
+      if (this.previewCenterline.length >= 2) {
+        this.stateSvc.addPipeShape(this.previewCenterline, [...this.pipeLegDepths]);
       }
       this.cancelDrawing();
     });
@@ -271,6 +544,11 @@ export class InteractionService implements OnDestroy {
       }
     });
 
+    // A drag released outside the canvas still has to close its undo step
+    window.addEventListener('mouseup', () => {
+      if (this.isDraggingShape) this.endShapeDrag();
+    });
+
     // Listen for Alt key changes
     window.addEventListener('keydown', (e) => {
       if (e.altKey && !this.isDraggingShape) {
@@ -300,6 +578,128 @@ export class InteractionService implements OnDestroy {
     });
   }
 
+  private endShapeDrag(): void {
+    this.stateSvc.endHistoryGroup();
+    this.isDraggingShape = false;
+    this.draggedShapeIds = [];
+    this.shapeDragStartPos = null;
+    this.shapeDragOrigin = null;
+    this.objectSnapSvc.clearGuides();
+    if (this.stage) this.stage.container().style.cursor = 'default';
+  }
+
+  // The next click on the canvas sets the rotation pivot
+  public pickRotationPivot(): void {
+    this.isPickingPivot = true;
+    if (this.stage) this.stage.container().style.cursor = 'crosshair';
+  }
+
+  public clearRotationPivot(): void {
+    this.rotationPivot = null;
+    this.isPickingPivot = false;
+    this.pivotMarker?.destroy();
+    this.pivotMarker = undefined;
+    this.layer?.batchDraw();
+  }
+
+  public startSeam(): void {
+    this.isPickingPivot = false;
+    this.isDrawingSeam = true;
+    if (this.stage) this.stage.container().style.cursor = 'crosshair';
+  }
+
+  public cancelSeam(): void {
+    this.isDrawingSeam = false;
+    this.seamStart = null;
+    this.seamPreview?.destroy();
+    this.seamPreview = undefined;
+    if (this.stage) this.stage.container().style.cursor = 'default';
+    this.layer?.batchDraw();
+  }
+
+  // Cuts the shape under the middle of the drawn line, preferring a selected one when
+  // shapes overlap there
+  private finishSeam(): void {
+    const start = this.seamStart;
+    const pointerPos = this.viewportSvc.getPointerPosition();
+    this.cancelSeam();
+    if (!start || !pointerPos) return;
+    const end = this.snapPoint(pointerPos, []);
+    if (Math.hypot(end.x - start.x, end.y - start.y) < 5) return;
+    const anchor = this.getPointerAnchor();
+
+    const state = this.stateSvc.getState();
+    // The middle of the line is inside a shape when an odd number of its edges cross
+    // the line before it
+    const candidates = state.shapes.filter(shape =>
+      this.geometrySvc.getLineCrossings(shape, start, end).filter(c => c.along < 0.5).length % 2 === 1
+    );
+    const shape = candidates.find(s => state.selectedShapeIds.includes(s.id)) ?? candidates[0];
+    if (!shape) {
+      this.noticeSvc.show({ message: 'Dibuja la juntura a través de una figura.', anchor });
+      return;
+    }
+
+    const error = this.tryEdit(() => this.stateSvc.splitShape(shape.id, start, end));
+    if (error) this.noticeSvc.show({ message: error, anchor });
+  }
+
+  private setRotationPivot(point: { x: number; y: number }): void {
+    this.clearRotationPivot();
+    this.rotationPivot = point;
+    if (this.stage) this.stage.container().style.cursor = 'default';
+    if (!this.layer) return;
+
+    const size = 8 / this.viewportSvc.scale;
+    const style = { stroke: '#DC2626', strokeWidth: 1.5 / this.viewportSvc.scale };
+    this.pivotMarker = new Konva.Group({ ...point, name: 'rotation-pivot', listening: false });
+    this.pivotMarker.add(new Konva.Circle({ radius: size / 2, ...style }));
+    this.pivotMarker.add(new Konva.Line({ points: [-size, 0, size, 0], ...style }));
+    this.pivotMarker.add(new Konva.Line({ points: [0, -size, 0, size], ...style }));
+    this.layer.add(this.pivotMarker);
+    this.layer.batchDraw();
+  }
+
+  // Adds every shape lying entirely inside the selection box to the selection
+  private finishBoxSelection(): void {
+    const rect = this.selectionBox;
+    const box = rect && { x: rect.x(), y: rect.y(), width: rect.width(), height: rect.height() };
+    rect?.destroy();
+    this.selectionBox = undefined;
+    this.selectionBoxStart = null;
+    this.layer?.batchDraw();
+    if (!box || (box.width === 0 && box.height === 0)) return;
+
+    const state = this.stateSvc.getState();
+    const inside = state.shapes.filter(shape => {
+      const bounds = this.geometrySvc.getShapeBounds(shape);
+      return bounds !== null
+        && bounds.x >= box.x && bounds.y >= box.y
+        && bounds.x + bounds.width <= box.x + box.width
+        && bounds.y + bounds.height <= box.y + box.height;
+    });
+    this.stateSvc.selectShapes([...state.selectedShapeIds, ...inside.map(shape => shape.id)]);
+  }
+
+  private renderPipePreview(): void {
+    if (!this.layer || this.previewCenterline.length < 2) return;
+
+    const vertices = this.geometrySvc.generateOrthogonalPipeVertices(
+      this.previewCenterline,
+      this.pipeLegDepths
+    );
+    const flatPoints = vertices.flatMap((p) => [p.x, p.y]);
+
+    if (this.previewPipe) {
+      this.previewPipe.points(flatPoints);
+    }
+
+    // Update preview labels
+    this.updatePreviewLabels(this.previewCenterline);
+
+    this.layer.batchDraw();
+  }
+
   private updatePreviewLabels(centerlinePath: { x: number; y: number }[]): void {
     if (!this.layer) return;
 
@@ -322,7 +722,7 @@ export class InteractionService implements OnDestroy {
       const label = new Konva.Text({
         x: midX,
         y: midY,
-        text: `${Math.round(length)}px`,
+        text: `${this.unitsSvc.formatLength(length)} × ${this.unitsSvc.formatLength(this.pipeLegDepths[i])}`,
         fontSize: 14,
         fill: '#10B981',
         fontStyle: 'bold',
@@ -343,24 +743,51 @@ export class InteractionService implements OnDestroy {
     }
   }
 
+  // Redraws a shape and its handles from uncommitted data while a drag is in progress.
+  // Committing to the state on every dragmove would re-render and break the drag.
+  private updateShapePreview(shape: Shape, draggedVertexIndex?: number): void {
+    if (!this.layer) return;
+
+    const shapeId = shape.id;
+    const numVertices = shape.vertices.length;
+
+    const shapePath = this.layer.findOne<Konva.Path>(`#shape-${shapeId}`);
+    if (shapePath) {
+      shapePath.data(this.geometrySvc.generateShapePathData(shape));
+    }
+
+    for (let i = 0; i < numVertices; i++) {
+      const p1 = shape.vertices[i];
+      const p2 = shape.vertices[(i + 1) % numVertices];
+
+      if (i !== draggedVertexIndex) { // Don't fight the handle being dragged
+        this.layer.findOne(`#vertex-${shapeId}-${i}`)?.position(p1);
+      }
+      this.layer.findOne(`#midpoint-${shapeId}-${i}`)?.position({ x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 });
+
+      const label = this.layer.findOne(`#segment-label-${shapeId}-${i}`);
+      if (label) {
+        this.updateSegmentLabelForShape(label, shape, i);
+      }
+      const angleLabel = this.layer.findOne<Konva.Text>(`#angle-label-${shapeId}-${i}`);
+      if (angleLabel) {
+        this.rendererSvc.updateAngleLabel(angleLabel, shape, i);
+      }
+    }
+    this.rendererSvc.updateConstraintGlyphs(shape);
+    this.rendererSvc.updateEdgeFinishes(shape);
+
+    this.layer.batchDraw();
+  }
+
   private updateSegmentLabelForShape(label: any, shape: any, segmentIndex: number): void {
-    const { vertices, segmentDepths } = shape;
+    const { vertices } = shape;
     const numVertices = vertices.length;
     const p1 = vertices[segmentIndex];
     const p2 = vertices[(segmentIndex + 1) % numVertices];
-    const depth = segmentDepths[segmentIndex] || 0;
-    const chord = Math.hypot(p2.x - p1.x, p2.y - p1.y);
-    let length = chord;
-
-    if (Math.abs(depth) > 0.1 && chord > 0) {
-      const radius = (depth * depth + (chord / 2) * (chord / 2)) / (2 * depth);
-      if (radius > chord / 2) {
-        const angle = 2 * Math.asin((chord / 2) / Math.abs(radius));
-        length = Math.abs(radius * angle);
-      }
-    }
+    const length = this.geometrySvc.getSegmentLength(shape, segmentIndex);
 
-    label.text(`${Math.round(length)}px`);
+    label.text(this.unitsSvc.formatLength(length));
     const midpointPos = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
 
     const isHorizontal = Math.abs(p1.y - p2.y) < Math.abs(p1.x - p2.x);
@@ -374,42 +801,6 @@ export class InteractionService implements OnDestroy {
     }
   }
 
-  private updateAngleLabelForShape(label: any, shape: any, vertexIndex: number): void {
-    const { vertices } = shape;
-    const numVertices = vertices.length;
-    const p_curr = vertices[vertexIndex];
-    const p_prev = vertices[(vertexIndex - 1 + numVertices) % numVertices];
-    const p_next = vertices[(vertexIndex + 1) % numVertices];
-    const v_a = { x: p_prev.x - p_curr.x, y: p_prev.y - p_curr.y };
-    const v_b = { x: p_next.x - p_curr.x, y: p_next.y - p_curr.y };
-    const l_a = Math.hypot(v_a.x, v_a.y);
-    const l_b = Math.hypot(v_b.x, v_b.y);
-    if (l_a === 0 || l_b === 0) { 
-      label.hide(); 
-      return; 
-    }
-    const dotProduct = v_a.x * v_b.x + v_a.y * v_b.y;
-    const cosValue = Math.max(-1, Math.min(1, dotProduct / (l_a * l_b)));
-    const angleRad = Math.acos(cosValue);
-    const angleDeg = angleRad * (180 / Math.PI);
-    label.text(`${angleDeg.toFixed(1)}°`);
-    const norm_a = { x: v_a.x / l_a, y: v_a.y / l_a };
-    const norm_b = { x: v_b.x / l_b, y: v_b.y / l_b };
-    const bisector = { x: norm_a.x + norm_b.x, y: norm_a.y + norm_b.y };
-    const l_bi = Math.hypot(bisector.x, bisector.y);
-    if (l_bi === 0) { 
-      label.hide(); 
-      return; 
-    }
-    const norm_bi = { x: bisector.x / l_bi, y: bisector.y / l_bi };
-    const offset = 25;
-    label.x(p_curr.x + norm_bi.x * offset);
-    label.y(p_curr.y + norm_bi.y * offset);
-    label.offsetX(label.width() / 2);
-    label.offsetY(label.height() / 2);
-    label.show();
-  }
-
   private attachVertexHandlers(): void {
     const layer = this.layer;
     if (!layer) return;
@@ -417,7 +808,7 @@ export class InteractionService implements OnDestroy {
     const handles = layer.find('.vertex-handle');
     
     handles.forEach((vertexHandle) => {
-      vertexHandle.off('dragstart dragmove dragend click contextmenu');
+      vertexHandle.off('dragstart dragmove dragend click tap contextmenu');
       
       const shapeId = vertexHandle.getAttr('shapeId');
       const vertexIndex = vertexHandle.getAttr('vertexIndex');
@@ -441,92 +832,41 @@ export class InteractionService implements OnDestroy {
         } else {
           constrainedPos.x = this.dragStartPos.x;
         }
+        const snap = this.snapPoints([constrainedPos], [shapeId], dx > dy ? 'x' : 'y');
+        constrainedPos = { x: constrainedPos.x + snap.dx, y: constrainedPos.y + snap.dy };
         vertexHandle.position(constrainedPos);
         
         // Don't update state during drag - this causes re-renders that break the drag
         // Instead, update the shape data directly and update the visual path
         const state = this.stateSvc.getState();
-        const selectedShape = state.shapes.find(s => s.id === shapeId);
-        if (selectedShape && this.layer) {
-          // Update vertex in memory
+        const currentShape = state.shapes.find(s => s.id === shapeId);
+        if (currentShape) {
+          // Update a copy of the shape so the stored state (and the undo history) stays untouched
+          const selectedShape = { ...currentShape, vertices: [...currentShape.vertices] };
           selectedShape.vertices[vertexIndex] = constrainedPos;
+          selectedShape.vertices = this.previewConstraints(selectedShape, [vertexIndex]);
           
-          // Update the visual path immediately
-          const shapePath = this.layer.findOne<Konva.Path>(`#shape-${shapeId}`);
-          if (shapePath) {
-            const newPathData = this.geometrySvc.generatePathData(selectedShape);
-            shapePath.data(newPathData);
-          }
-          
-          // Update other vertex handles positions
-          selectedShape.vertices.forEach((vertex, i) => {
-            if (i !== vertexIndex) { // Don't update the handle being dragged
-              const handle = this.layer?.findOne(`#vertex-${shapeId}-${i}`);
-              if (handle) {
-                handle.position(vertex);
-              }
-            }
-          });
-          
-          // Update midpoint handles positions
-          const numVertices = selectedShape.vertices.length;
-          for (let i = 0; i < numVertices; i++) {
-            const p1 = selectedShape.vertices[i];
-            const p2 = selectedShape.vertices[(i + 1) % numVertices];
-            const midpointHandle = this.layer?.findOne(`#midpoint-${shapeId}-${i}`);
-            if (midpointHandle) {
-              midpointHandle.position({ x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 });
-            }
-          }
-          
-          // Update segment labels
-          for (let i = 0; i < numVertices; i++) {
-            const label = this.layer?.findOne(`#segment-label-${shapeId}-${i}`);
-            if (label) {
-              this.updateSegmentLabelForShape(label, selectedShape, i);
-            }
-          }
-          
-          // Update angle labels
-          for (let i = 0; i < numVertices; i++) {
-            const angleLabel = this.layer?.findOne(`#angle-label-${shapeId}-${i}`);
-            if (angleLabel) {
-              this.updateAngleLabelForShape(angleLabel, selectedShape, i);
-            }
-          }
-          
-          this.layer.batchDraw();
+          this.updateShapePreview(selectedShape, vertexIndex);
         }
       });
 
       vertexHandle.on('dragend', () => {
         this.dragStartPos = null;
+        this.objectSnapSvc.clearGuides();
         
         // Now update the state to persist the change
         const finalPos = vertexHandle.position();
-        this.stateSvc.updateVertexPosition(vertexIndex, finalPos);
+        this.commitDrag(() => this.stateSvc.updateVertexPosition(shapeId, vertexIndex, finalPos), `vertex-${shapeId}-${vertexIndex}`);
       });
 
-      const eventListener = (evt: Konva.KonvaEventObject<MouseEvent>) => {
+      vertexHandle.on('click tap', (evt) => {
         evt.evt.preventDefault();
-        const state = this.stateSvc.getState();
-        const selectedShape = state.shapes.find(s => s.id === state.selectedShapeId);
-        if (!selectedShape) return;
-        
-        const currentRadius = selectedShape.cornerRadii[vertexIndex] || 0;
-        const newRadiusStr = prompt(
-          'Enter corner radius:',
-          currentRadius.toString()
-        );
-        if (newRadiusStr) {
-          const newRadius = parseFloat(newRadiusStr);
-          if (!isNaN(newRadius) && newRadius >= 0) {
-            this.stateSvc.setCornerRadius(vertexIndex, newRadius);
-          }
-        }
-      };
-      vertexHandle.on('click', eventListener);
-      vertexHandle.on('contextmenu', eventListener);
+        this.editCornerRadius(shapeId, vertexIndex);
+      });
+      vertexHandle.on('contextmenu', (evt) => {
+        evt.evt.preventDefault();
+        this.openVertexMenu(shapeId, vertexIndex, evt.evt as MouseEvent);
+      });
     });
   }
 
@@ -535,7 +875,7 @@ export class InteractionService implements OnDestroy {
     if (!layer) return;
 
     layer.find('.midpoint-handle').forEach((midpointHandle) => {
-      midpointHandle.off('dragstart dragmove dragend click contextmenu');
+      midpointHandle.off('dragstart dragmove dragend click tap contextmenu');
       
       const shapeId = midpointHandle.getAttr('shapeId');
       const segmentIndex = midpointHandle.getAttr('segmentIndex');
@@ -544,8 +884,7 @@ export class InteractionService implements OnDestroy {
         this.dragStartPos = midpointHandle.position();
         // Don't change selection during drag
         
-        const state = this.stateSvc.getState();
-        const selectedShape = state.shapes.find(s => s.id === state.selectedShapeId);
+        const selectedShape = this.findShape(shapeId);
         if (!selectedShape) return;
         
         const numVertices = selectedShape.vertices.length;
@@ -565,20 +904,13 @@ export class InteractionService implements OnDestroy {
         )
           return;
         
-        const state = this.stateSvc.getState();
-        const selectedShape = state.shapes.find(s => s.id === state.selectedShapeId);
-        if (!selectedShape) return;
+        const currentShape = this.findShape(shapeId);
+        if (!currentShape) return;
         
+        const selectedShape = { ...currentShape, vertices: [...currentShape.vertices] };
         const numVertices = selectedShape.vertices.length;
 
-        let dx = midpointHandle.x() - this.dragStartPos.x;
-        let dy = midpointHandle.y() - this.dragStartPos.y;
-
-        if (this.midpointDragInfo.isHorizontal) {
-          dx = 0;
-        } else {
-          dy = 0;
-        }
+        const { dx, dy } = this.getMidpointDragOffset(midpointHandle, shapeId);
 
         const p1_new = {
           x: this.shapeStartPoints[0].x + dx,
@@ -592,119 +924,67 @@ export class InteractionService implements OnDestroy {
         // Don't update state during drag - update shape data directly
         selectedShape.vertices[segmentIndex] = p1_new;
         selectedShape.vertices[(segmentIndex + 1) % numVertices] = p2_new;
+        selectedShape.vertices = this.previewConstraints(selectedShape, [segmentIndex, (segmentIndex + 1) % numVertices]);
         
-        // Update the visual path immediately
-        if (this.layer) {
-          const shapePath = this.layer.findOne<Konva.Path>(`#shape-${shapeId}`);
-          if (shapePath) {
-            const newPathData = this.geometrySvc.generatePathData(selectedShape);
-            shapePath.data(newPathData);
-          }
-          
-          // Update vertex handles positions
-          selectedShape.vertices.forEach((vertex, i) => {
-            const handle = this.layer?.findOne(`#vertex-${shapeId}-${i}`);
-            if (handle) {
-              handle.position(vertex);
-            }
-          });
-          
-          // Update other midpoint handles positions
-          for (let i = 0; i < numVertices; i++) {
-            const p1 = selectedShape.vertices[i];
-            const p2 = selectedShape.vertices[(i + 1) % numVertices];
-            const midHandle = this.layer?.findOne(`#midpoint-${shapeId}-${i}`);
-            if (midHandle) {
-              midHandle.position({ x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 });
-            }
-          }
-          
-          // Update segment labels
-          for (let i = 0; i < numVertices; i++) {
-            const label = this.layer?.findOne(`#segment-label-${shapeId}-${i}`);
-            if (label) {
-              this.updateSegmentLabelForShape(label, selectedShape, i);
-            }
-          }
-          
-          // Update angle labels
-          for (let i = 0; i < numVertices; i++) {
-            const angleLabel = this.layer?.findOne(`#angle-label-${shapeId}-${i}`);
-            if (angleLabel) {
-              this.updateAngleLabelForShape(angleLabel, selectedShape, i);
-            }
-          }
-          
-          this.layer.batchDraw();
-        }
+        this.updateShapePreview(selectedShape);
       });
 
       midpointHandle.on('dragend', () => {
         
         // Publish final state
         if (this.shapeStartPoints && this.midpointDragInfo) {
-          const finalDx = midpointHandle.x() - (this.dragStartPos?.x || 0);
-          const finalDy = midpointHandle.y() - (this.dragStartPos?.y || 0);
-          
-          let dx = finalDx;
-          let dy = finalDy;
-          
-          if (this.midpointDragInfo.isHorizontal) {
-            dx = 0;
-          } else {
-            dy = 0;
-          }
-          
-          const p1_final = {
-            x: this.shapeStartPoints[0].x + dx,
-            y: this.shapeStartPoints[0].y + dy,
-          };
-          const p2_final = {
-            x: this.shapeStartPoints[1].x + dx,
-            y: this.shapeStartPoints[1].y + dy,
-          };
-          
-          const state = this.stateSvc.getState();
-          const selectedShape = state.shapes.find(s => s.id === shapeId);
-          if (selectedShape) {
-            const numVertices = selectedShape.vertices.length;
-            this.stateSvc.updateVertexPosition(segmentIndex, p1_final);
-            this.stateSvc.updateVertexPosition((segmentIndex + 1) % numVertices, p2_final);
-          }
+          const { dx, dy } = this.getMidpointDragOffset(midpointHandle, shapeId);
+          this.commitDrag(() => this.stateSvc.moveSegment(shapeId, segmentIndex, dx, dy), `midpoint-${shapeId}-${segmentIndex}`);
         }
         
         this.dragStartPos = null;
         this.shapeStartPoints = null;
         this.midpointDragInfo = null;
+        this.objectSnapSvc.clearGuides();
       });
 
-      const eventListener = (evt: Konva.KonvaEventObject<MouseEvent>) => {
+      midpointHandle.on('click tap', () => {
+        this.editSegmentDepth(shapeId, segmentIndex);
+      });
+      midpointHandle.on('contextmenu', (evt) => {
         evt.evt.preventDefault();
-        const state = this.stateSvc.getState();
-        const selectedShape = state.shapes.find(s => s.id === state.selectedShapeId);
-        if (!selectedShape) return;
-        
-        const p1 = selectedShape.vertices[segmentIndex];
-        const p2 = selectedShape.vertices[(segmentIndex + 1) % selectedShape.vertices.length];
-        const chord = Math.hypot(p2.x - p1.x, p2.y - p1.y);
-        const currentDepth = selectedShape.segmentDepths[segmentIndex] || 0;
-        const newDepthStr = prompt(
-          'Enter segment depth:',
-          currentDepth.toString()
-        );
-        if (newDepthStr) {
-          let newDepth = parseFloat(newDepthStr);
-          if (!isNaN(newDepth)) {
-            newDepth = Math.max(-chord, Math.min(chord, newDepth));
-            this.stateSvc.setSegmentDepth(segmentIndex, newDepth);
-          }
-        }
-      };
-      midpointHandle.on('click', eventListener);
-      midpointHandle.on('contextmenu', eventListener);
+        this.openSegmentMenu(shapeId, segmentIndex, evt.evt as MouseEvent);
+      });
     });
   }
 
+  // A segment only moves perpendicular to itself, snapping its ends to other
+  // shapes or, failing that, its first vertex to the grid
+  private getMidpointDragOffset(midpointHandle: Konva.Node, shapeId: string): { dx: number; dy: number } {
+    if (!this.dragStartPos || !this.shapeStartPoints || !this.midpointDragInfo) return { dx: 0, dy: 0 };
+
+    const isHorizontal = this.midpointDragInfo.isHorizontal;
+    const dx = isHorizontal ? 0 : midpointHandle.x() - this.dragStartPos.x;
+    const dy = isHorizontal ? midpointHandle.y() - this.dragStartPos.y : 0;
+    const points = this.shapeStartPoints.map(p => ({ x: p.x + dx, y: p.y + dy }));
+    const snap = this.snapPoints(points, [shapeId], isHorizontal ? 'y' : 'x');
+    return { dx: dx + snap.dx, dy: dy + snap.dy };
+  }
+
+  private snapPoint(point: { x: number; y: number }, excludeShapeIds: string[]): { x: number; y: number } {
+    const { dx, dy } = this.snapPoints([point], excludeShapeIds);
+    return { x: point.x + dx, y: point.y + dy };
+  }
+
+  // Correction that snaps a set of moving points: to other shapes first, then to
+  // the grid (using the first point) on any axis no shape claimed.
+  // axis is the only direction the points can move in, when constrained.
+  private snapPoints(
+    points: { x: number; y: number }[], excludeShapeIds: string[], axis?: 'x' | 'y'
+  ): { dx: number; dy: number; result: ObjectSnapResult } {
+    const result = this.objectSnapSvc.snap(points, excludeShapeIds, axis);
+    const reference = points[0];
+    const dx = axis === 'y' ? 0 : result.snappedX ? result.dx : this.gridSvc.snapValue(reference.x) - reference.x;
+    const dy = axis === 'x' ? 0 : result.snappedY ? result.dy : this.gridSvc.snapValue(reference.y) - reference.y;
+    this.objectSnapSvc.showGuides(result, points, dx, dy);
+    return { dx, dy, result };
+  }
+
   private attachLabelHandlers(): void {
     const layer = this.layer;
     if (!layer) return;
@@ -717,35 +997,156 @@ export class InteractionService implements OnDestroy {
       
       label.on('click tap', () => {
         this.stateSvc.selectShape(shapeId);
-        
-        const state = this.stateSvc.getState();
-        const selectedShape = state.shapes.find(s => s.id === state.selectedShapeId);
-        if (!selectedShape) return;
-        
-        const p1 = selectedShape.vertices[segmentIndex];
-        const p2 = selectedShape.vertices[(segmentIndex + 1) % selectedShape.vertices.length];
-        const currentLength = Math.hypot(p2.x - p1.x, p2.y - p1.y);
-        const newLengthStr = prompt(
-          'Enter new length:',
-          Math.round(currentLength).toString()
-        );
-        if (newLengthStr) {
-          const newLength = parseFloat(newLengthStr);
-          if (!isNaN(newLength) && newLength > 0 && currentLength > 0) {
-            const scaleRatio = newLength / currentLength;
-            const segmentIsHorizontal =
-              Math.abs(p1.y - p2.y) < Math.abs(p1.x - p2.x);
-            this.stateSvc.scaleAll(
-              scaleRatio,
-              segmentIsHorizontal,
-              selectedShape.vertices
-            );
-          }
+        this.editSegmentLength(shapeId, segmentIndex);
+      });
+    });
+  }
+
+  private attachLegHandlers(): void {
+    const layer = this.layer;
+    if (!layer) return;
+
+    layer.find('.leg-handle').forEach((legHandle) => {
+      legHandle.off('dragstart dragmove dragend click tap contextmenu');
+
+      const shapeId = legHandle.getAttr('shapeId');
+      const legIndex = legHandle.getAttr('legIndex');
+
+      legHandle.on('dragstart', () => {
+        const shape = this.stateSvc.getState().shapes.find(s => s.id === shapeId);
+        this.dragStartPos = legHandle.position();
+        this.pipeDragCenterline = shape?.pipe ? shape.pipe.centerline : null;
+      });
+
+      // Dragging a leg sideways moves it as a whole; the neighbouring legs stretch
+      legHandle.on('dragmove', () => {
+        const startCenterline = this.pipeDragCenterline;
+        if (!this.dragStartPos || !startCenterline) return;
+
+        const p1 = startCenterline[legIndex];
+        const p2 = startCenterline[legIndex + 1];
+        const length = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+        if (length === 0) return;
+
+        const normal = { x: -(p2.y - p1.y) / length, y: (p2.x - p1.x) / length };
+        const distance = (legHandle.x() - this.dragStartPos.x) * normal.x + (legHandle.y() - this.dragStartPos.y) * normal.y;
+        const offset = { x: normal.x * distance, y: normal.y * distance };
+        legHandle.position({ x: this.dragStartPos.x + offset.x, y: this.dragStartPos.y + offset.y });
+
+        this.updatePipePreview(shapeId, this.geometrySvc.offsetPipeLeg(startCenterline, legIndex, offset), legHandle);
+      });
+
+      legHandle.on('dragend', () => {
+        const startCenterline = this.pipeDragCenterline;
+        if (this.dragStartPos && startCenterline) {
+          const offset = { x: legHandle.x() - this.dragStartPos.x, y: legHandle.y() - this.dragStartPos.y };
+          this.stateSvc.setPipeCenterline(shapeId, this.geometrySvc.offsetPipeLeg(startCenterline, legIndex, offset));
+        }
+        this.dragStartPos = null;
+        this.pipeDragCenterline = null;
+      });
+
+      // Right-click turns the leg (and everything after it) by 90°; Shift turns the other way
+      legHandle.on('contextmenu', (evt) => {
+        evt.evt.preventDefault();
+        const shape = this.stateSvc.getState().shapes.find(s => s.id === shapeId);
+        if (!shape?.pipe) return;
+
+        const direction = (evt.evt as MouseEvent).shiftKey ? -1 : 1;
+        this.stateSvc.setPipeCenterline(shapeId, this.geometrySvc.turnPipeLeg(shape.pipe.centerline, legIndex, direction));
+      });
+
+      legHandle.on('click tap', (evt) => {
+        // Shift applies the depth to every leg of the shape
+        this.editLegDepth(shapeId, legIndex, (evt.evt as MouseEvent).shiftKey);
+      });
+    });
+  }
+
+  private attachLegLabelHandlers(): void {
+    const layer = this.layer;
+    if (!layer) return;
+
+    layer.find('.leg-label').forEach((label) => {
+      label.off('click tap');
+
+      const shapeId = label.getAttr('shapeId');
+      const legIndex = label.getAttr('legIndex');
+
+      label.on('click tap', () => {
+        this.editLegLength(shapeId, legIndex);
+      });
+    });
+  }
+
+  private attachPipeEndHandlers(): void {
+    const layer = this.layer;
+    if (!layer) return;
+
+    layer.find('.pipe-end-handle').forEach((endHandle) => {
+      endHandle.off('dragstart dragmove dragend');
+
+      const shapeId = endHandle.getAttr('shapeId');
+      const pipeEnd: 'start' | 'end' = endHandle.getAttr('pipeEnd');
+
+      endHandle.on('dragstart', () => {
+        const shape = this.stateSvc.getState().shapes.find(s => s.id === shapeId);
+        this.pipeDragCenterline = shape?.pipe ? shape.pipe.centerline : null;
+      });
+
+      endHandle.on('dragmove', () => {
+        if (!this.pipeDragCenterline) return;
+        const centerline = this.geometrySvc.movePipeEnd(this.pipeDragCenterline, pipeEnd, endHandle.position());
+        endHandle.position(centerline[pipeEnd === 'start' ? 0 : centerline.length - 1]);
+        this.updatePipePreview(shapeId, centerline, endHandle);
+      });
+
+      endHandle.on('dragend', () => {
+        if (this.pipeDragCenterline) {
+          this.stateSvc.setPipeCenterline(
+            shapeId,
+            this.geometrySvc.movePipeEnd(this.pipeDragCenterline, pipeEnd, endHandle.position())
+          );
         }
+        this.pipeDragCenterline = null;
       });
     });
   }
 
+  // Preview of a pipe shape regenerated from an edited centerline, without committing it
+  private updatePipePreview(shapeId: string, centerline: { x: number; y: number }[], draggedNode: Konva.Node): void {
+    const shape = this.stateSvc.getState().shapes.find(s => s.id === shapeId);
+    if (!this.layer || !shape?.pipe) return;
+
+    const pipe = { ...shape.pipe, centerline };
+    const preview: Shape = {
+      ...shape,
+      vertices: this.geometrySvc.generateOrthogonalPipeVertices(centerline, pipe.legDepths),
+      pipe,
+    };
+    this.updateShapePreview(preview);
+
+    this.layer.findOne<Konva.Line>(`#centerline-${shapeId}`)?.points(centerline.flatMap(p => [p.x, p.y]));
+    for (let i = 0; i < centerline.length - 1; i++) {
+      const p1 = centerline[i];
+      const p2 = centerline[i + 1];
+      const legHandle = this.layer.findOne(`#leg-${shapeId}-${i}`);
+      if (legHandle && legHandle !== draggedNode) {
+        legHandle.position({ x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 });
+      }
+      const legLabel = this.layer.findOne<Konva.Text>(`#leg-label-${shapeId}-${i}`);
+      if (legLabel) {
+        this.rendererSvc.updateLegLabel(legLabel, preview, i);
+      }
+    }
+    const startHandle = this.layer.findOne(`#pipe-end-${shapeId}-start`);
+    if (startHandle && startHandle !== draggedNode) startHandle.position(centerline[0]);
+    const endHandle = this.layer.findOne(`#pipe-end-${shapeId}-end`);
+    if (endHandle && endHandle !== draggedNode) endHandle.position(centerline[centerline.length - 1]);
+
+    this.layer.batchDraw();
+  }
+
   private attachAngleLabelHandlers(): void {
     const layer = this.layer;
     if (!layer) return;
@@ -758,106 +1159,314 @@ export class InteractionService implements OnDestroy {
       
       label.on('click tap', () => {
         this.stateSvc.selectShape(shapeId);
-        
-        const state = this.stateSvc.getState();
-        const selectedShape = state.shapes.find(s => s.id === state.selectedShapeId);
-        if (!selectedShape) return;
-        
-        // Calculate current angle
-        const numVertices = selectedShape.vertices.length;
-        const p_curr = selectedShape.vertices[vertexIndex];
-        const p_prev = selectedShape.vertices[(vertexIndex - 1 + numVertices) % numVertices];
-        const p_next = selectedShape.vertices[(vertexIndex + 1) % numVertices];
-        
-        const v_a = { x: p_prev.x - p_curr.x, y: p_prev.y - p_curr.y };
-        const v_b = { x: p_next.x - p_curr.x, y: p_next.y - p_curr.y };
-        const l_a = Math.hypot(v_a.x, v_a.y);
-        const l_b = Math.hypot(v_b.x, v_b.y);
-        
-        if (l_a === 0 || l_b === 0) return;
-        
-        const dotProduct = v_a.x * v_b.x + v_a.y * v_b.y;
-        const cosValue = Math.max(-1, Math.min(1, dotProduct / (l_a * l_b)));
-        const currentAngle = Math.acos(cosValue) * (180 / Math.PI);
-        
-        const newAngleStr = prompt(
-          'Ingresa el nuevo ángulo (grados):',
-          currentAngle.toFixed(1)
+        this.editAngle(shapeId, vertexIndex);
+      });
+    });
+  }
+
+  private findShape(shapeId: string): Shape | undefined {
+    return this.stateSvc.getState().shapes.find(s => s.id === shapeId);
+  }
+
+  // Page position of a rendered node, where the dimension editor opens
+  private getEditorAnchor(nodeId: string): { x: number; y: number } {
+    const node = this.layer?.findOne(`#${nodeId}`);
+    const box = this.stage?.container().getBoundingClientRect();
+    if (!node || !box) return { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+
+    const position = node.getAbsolutePosition();
+    return { x: box.left + position.x, y: box.top + position.y };
+  }
+
+  // Page coordinates of the pointer, for notices about what was just drawn
+  private getPointerAnchor(): { x: number; y: number } {
+    const position = this.stage?.getPointerPosition();
+    const box = this.stage?.container().getBoundingClientRect();
+    if (!position || !box) return { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+    return { x: box.left + position.x, y: box.top + position.y };
+  }
+
+  private parsePositiveLength(text: string, allowZero = false): number | string {
+    const length = this.unitsSvc.parseLength(text);
+    if (length === null) return 'Introduce una medida válida, p. ej. 120 o 1.2 m.';
+    if (length < 0 || (length === 0 && !allowZero)) {
+      return allowZero ? 'La medida no puede ser negativa.' : 'La medida debe ser mayor que cero.';
+    }
+    return length;
+  }
+
+  private openVertexMenu(shapeId: string, vertexIndex: number, event: MouseEvent): void {
+    const shape = this.findShape(shapeId);
+    if (!shape) return;
+
+    this.menuSvc.open({
+      anchor: { x: event.clientX, y: event.clientY },
+      items: [
+        { label: 'Radio de la esquina…', action: () => this.editCornerRadius(shapeId, vertexIndex) },
+        { label: 'Ángulo…', action: () => this.editAngle(shapeId, vertexIndex) },
+        {
+          label: 'Eliminar vértice',
+          disabled: shape.vertices.length <= 3,
+          action: () => {
+            const error = this.tryEdit(() => this.stateSvc.removeVertex(shapeId, vertexIndex));
+            if (error) this.noticeSvc.show({ message: error, anchor: { x: event.clientX, y: event.clientY } });
+          },
+        },
+      ],
+    });
+  }
+
+  // Curvature and edge finish of a segment
+  private openSegmentMenu(shapeId: string, segmentIndex: number, event: MouseEvent): void {
+    const shape = this.findShape(shapeId);
+    if (!shape) return;
+
+    const current = shape.edgeFinishes?.[segmentIndex] ?? null;
+    const setFinish = (finish: EdgeFinish | null) => {
+      const error = this.tryEdit(() => this.stateSvc.setEdgeFinish(shapeId, segmentIndex, finish));
+      if (error) this.noticeSvc.show({ message: error, anchor: { x: event.clientX, y: event.clientY } });
+    };
+    const finishTypes: EdgeType[] = ['wall', 'polished', 'eased', 'bullnose', 'ogee'];
+
+    // A seam edge belongs to its joint; it isn't finished
+    if (current?.type === 'seam') {
+      this.menuSvc.open({
+        anchor: { x: event.clientX, y: event.clientY },
+        items: [
+          { label: 'Curvatura…', action: () => this.editSegmentDepth(shapeId, segmentIndex) },
+          { label: `Canto: ${EDGE_TYPE_LABELS.seam}`, checked: true, disabled: true, action: () => {} },
+        ],
+      });
+      return;
+    }
+
+    this.menuSvc.open({
+      anchor: { x: event.clientX, y: event.clientY },
+      items: [
+        { label: 'Curvatura…', action: () => this.editSegmentDepth(shapeId, segmentIndex) },
+        ...finishTypes.map(type => ({
+          label: `Canto: ${EDGE_TYPE_LABELS[type]}`,
+          checked: current?.type === type,
+          action: () => setFinish({ type }),
+        })),
+        {
+          label: current?.type === 'backsplash'
+            ? `Canto: Con copete de ${this.unitsSvc.formatLength(current.backsplashHeight ?? 0)}…`
+            : 'Canto: Con copete…',
+          checked: current?.type === 'backsplash',
+          action: () => this.editBacksplashHeight(shapeId, segmentIndex),
+        },
+        { label: 'Canto sin especificar', disabled: !current, action: () => setFinish(null) },
+      ],
+    });
+  }
+
+  private editBacksplashHeight(shapeId: string, segmentIndex: number): void {
+    const shape = this.findShape(shapeId);
+    if (!shape) return;
+
+    const current = shape.edgeFinishes?.[segmentIndex];
+    const height = current?.type === 'backsplash' && current.backsplashHeight
+      ? current.backsplashHeight
+      : this.unitsSvc.mmToPx(DEFAULT_BACKSPLASH_HEIGHT_MM);
+    this.editorSvc.open({
+      label: `Altura del copete del lado ${segmentIndex + 1}`,
+      value: this.unitsSvc.formatLengthValue(height),
+      unit: this.unitsSvc.unitLabel(),
+      anchor: this.getEditorAnchor(`midpoint-${shapeId}-${segmentIndex}`),
+      apply: (text) => {
+        const value = this.parsePositiveLength(text);
+        if (typeof value === 'string') return value;
+        return this.tryEdit(() =>
+          this.stateSvc.setEdgeFinish(shapeId, segmentIndex, { type: 'backsplash', backsplashHeight: value })
         );
-        
-        if (newAngleStr) {
-          const newAngle = parseFloat(newAngleStr);
-          if (!isNaN(newAngle) && newAngle > 0 && newAngle < 180) {
-            // Limite el cambio máximo para evitar deformaciones drásticas
-            const maxChange = 10; // Máximo 10 grados por vez
-            const angleDiff = newAngle - currentAngle;
-            const clampedAngle = currentAngle + Math.max(-maxChange, Math.min(maxChange, angleDiff));
-            this.adjustAngleGradually(selectedShape, vertexIndex, clampedAngle);
-          }
+      },
+    });
+  }
+
+  private editCornerRadius(shapeId: string, vertexIndex: number): void {
+    const shape = this.findShape(shapeId);
+    if (!shape) return;
+
+    const numVertices = shape.vertices.length;
+    this.editorSvc.open({
+      label: `Radio de la esquina ${vertexIndex + 1}`,
+      value: this.unitsSvc.formatLengthValue(shape.cornerRadii[vertexIndex] || 0),
+      unit: this.unitsSvc.unitLabel(),
+      anchor: this.getEditorAnchor(`vertex-${shapeId}-${vertexIndex}`),
+      apply: (text) => {
+        const radius = this.parsePositiveLength(text, true);
+        if (typeof radius === 'string') return radius;
+        this.stateSvc.setCornerRadius(shapeId, vertexIndex, radius);
+        return null;
+      },
+      navigate: (direction) => this.editCornerRadius(shapeId, (vertexIndex + direction + numVertices) % numVertices),
+    });
+  }
+
+  private editSegmentDepth(shapeId: string, segmentIndex: number): void {
+    const shape = this.findShape(shapeId);
+    if (!shape) return;
+
+    const numVertices = shape.vertices.length;
+    this.editorSvc.open({
+      label: `Curvatura del lado ${segmentIndex + 1}`,
+      value: this.unitsSvc.formatLengthValue(shape.segmentDepths[segmentIndex] || 0),
+      unit: this.unitsSvc.unitLabel(),
+      anchor: this.getEditorAnchor(`midpoint-${shapeId}-${segmentIndex}`),
+      apply: (text) => {
+        const depth = this.unitsSvc.parseLength(text);
+        if (depth === null) return 'Introduce una medida válida; negativa curva hacia dentro.';
+
+        const current = this.findShape(shapeId);
+        if (!current) return null;
+        const p1 = current.vertices[segmentIndex];
+        const p2 = current.vertices[(segmentIndex + 1) % current.vertices.length];
+        const chord = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+        if (Math.abs(depth) > chord) {
+          return `La curvatura no puede superar la cuerda del lado (${this.unitsSvc.formatLength(chord)}).`;
         }
-      });
+        this.stateSvc.setSegmentDepth(shapeId, segmentIndex, depth);
+        return null;
+      },
+      navigate: (direction) => this.editSegmentDepth(shapeId, (segmentIndex + direction + numVertices) % numVertices),
     });
   }
 
-  private adjustAngleGradually(shape: any, vertexIndex: number, targetAngleDeg: number): void {
+  private editSegmentLength(shapeId: string, segmentIndex: number): void {
+    const shape = this.findShape(shapeId);
+    if (!shape) return;
+
     const numVertices = shape.vertices.length;
-    const p_curr = shape.vertices[vertexIndex];
-    const p_prev = shape.vertices[(vertexIndex - 1 + numVertices) % numVertices];
-    const p_next = shape.vertices[(vertexIndex + 1) % numVertices];
-    
-    // Calculate vectors from current vertex
-    const v_a = { x: p_prev.x - p_curr.x, y: p_prev.y - p_curr.y };
-    const v_b = { x: p_next.x - p_curr.x, y: p_next.y - p_curr.y };
-    const l_a = Math.hypot(v_a.x, v_a.y);
-    const l_b = Math.hypot(v_b.x, v_b.y);
-    
-    if (l_a === 0 || l_b === 0) return;
-    
-    // Calculate current angle
-    const dotProduct = v_a.x * v_b.x + v_a.y * v_b.y;
-    const cosValue = Math.max(-1, Math.min(1, dotProduct / (l_a * l_b)));
-    const currentAngleDeg = Math.acos(cosValue) * (180 / Math.PI);
-    
-    // Calculate small adjustment
-    const angleDiff = targetAngleDeg - currentAngleDeg;
-    const adjustmentRad = (angleDiff * (Math.PI / 180)) * 0.2; // Solo 20% del cambio para ser muy suave
-    
-    // Apply small rotation to each adjacent vertex
-    const cos_adj = Math.cos(adjustmentRad / 2);
-    const sin_adj = Math.sin(adjustmentRad / 2);
-    
-    // Normalize vectors
-    const norm_a = { x: v_a.x / l_a, y: v_a.y / l_a };
-    const norm_b = { x: v_b.x / l_b, y: v_b.y / l_b };
-    
-    // Apply small rotations in opposite directions
-    const new_norm_a = {
-      x: norm_a.x * cos_adj + norm_a.y * sin_adj,
-      y: -norm_a.x * sin_adj + norm_a.y * cos_adj
-    };
-    const new_norm_b = {
-      x: norm_b.x * cos_adj - norm_b.y * sin_adj,
-      y: norm_b.x * sin_adj + norm_b.y * cos_adj
-    };
-    
-    // Update vertices with preserved lengths
-    const newVertices = [...shape.vertices];
-    newVertices[(vertexIndex - 1 + numVertices) % numVertices] = {
-      x: p_curr.x + new_norm_a.x * l_a,
-      y: p_curr.y + new_norm_a.y * l_a
-    };
-    newVertices[(vertexIndex + 1) % numVertices] = {
-      x: p_curr.x + new_norm_b.x * l_b,
-      y: p_curr.y + new_norm_b.y * l_b
-    };
-    
-    // Update the shape
-    const state = this.stateSvc.getState();
-    const newShapes = state.shapes.map(s => 
-      s.id === shape.id 
-        ? { ...s, vertices: newVertices }
-        : s
-    );
-    this.stateSvc.setState({ shapes: newShapes });
+    this.editorSvc.open({
+      label: `Largo del lado ${segmentIndex + 1}`,
+      value: this.unitsSvc.formatLengthValue(this.geometrySvc.getSegmentLength(shape, segmentIndex)),
+      unit: this.unitsSvc.unitLabel(),
+      anchor: this.getEditorAnchor(`segment-label-${shapeId}-${segmentIndex}`),
+      choice: {
+        label: 'Fijo',
+        options: [
+          { value: 'auto', label: 'Automático' },
+          { value: 'start', label: `Vértice ${segmentIndex + 1}` },
+          { value: 'end', label: `Vértice ${(segmentIndex + 1) % numVertices + 1}` },
+        ],
+        value: this.lengthAnchor,
+      },
+      apply: (text, choice) => {
+        const length = this.parsePositiveLength(text);
+        if (typeof length === 'string') return length;
+
+        this.lengthAnchor = choice === 'start' || choice === 'end' ? choice : 'auto';
+        const anchor = this.lengthAnchor === 'auto' ? undefined : this.lengthAnchor;
+        return this.tryEdit(() => this.stateSvc.setSegmentLength(shapeId, segmentIndex, length, anchor));
+      },
+      navigate: (direction) => this.editSegmentLength(shapeId, (segmentIndex + direction + numVertices) % numVertices),
+    });
+  }
+
+  private editAngle(shapeId: string, vertexIndex: number): void {
+    const shape = this.findShape(shapeId);
+    if (!shape) return;
+
+    const currentAngle = this.geometrySvc.getInteriorAngle(shape, vertexIndex);
+    if (currentAngle === null) return;
+
+    const numVertices = shape.vertices.length;
+    this.editorSvc.open({
+      label: `Ángulo interior de la esquina ${vertexIndex + 1}`,
+      value: currentAngle.toFixed(1),
+      unit: '°',
+      anchor: this.getEditorAnchor(`angle-label-${shapeId}-${vertexIndex}`),
+      choice: {
+        label: 'Girar',
+        options: [
+          { value: 'prev', label: 'Lado anterior' },
+          { value: 'next', label: 'Lado siguiente' },
+        ],
+        value: this.angleRotateEdge,
+      },
+      apply: (text, choice) => {
+        const newAngle = parseFloat(text.replace(',', '.'));
+        if (isNaN(newAngle)) return 'Introduce un ángulo en grados, p. ej. 90.';
+
+        this.angleRotateEdge = choice === 'prev' ? 'prev' : 'next';
+        return this.tryEdit(() => this.stateSvc.setVertexAngle(shapeId, vertexIndex, newAngle, this.angleRotateEdge));
+      },
+      navigate: (direction) => this.editAngle(shapeId, (vertexIndex + direction + numVertices) % numVertices),
+    });
+  }
+
+  // Vertices a drag preview should show: the dragged outline reshaped by the shape's
+  // constraints, or as dragged if they can't be met (the drop will then be refused)
+  private previewConstraints(shape: Shape, pinned: number[]): { x: number; y: number }[] {
+    if (!shape.constraints?.length) return shape.vertices;
+    return this.solverSvc.solve(shape.vertices, shape.constraints, pinned) ?? shape.vertices;
+  }
+
+  // Commits the end of a drag. If the edit is refused the shape is redrawn from the
+  // state, snapping back to where it was, and the reason is shown by the dragged handle.
+  private commitDrag(edit: () => void, handleId: string): void {
+    const error = this.tryEdit(edit);
+    if (error) {
+      this.rendererSvc.render(this.stateSvc.getState());
+      this.updateHandlers();
+      this.noticeSvc.show({ message: error, anchor: this.getEditorAnchor(handleId) });
+    }
+  }
+
+  // Runs a state edit, turning a ShapeEditError into the message for the editor
+  private tryEdit(edit: () => void): string | null {
+    try {
+      edit();
+      return null;
+    } catch (error) {
+      if (!(error instanceof ShapeEditError)) throw error;
+      return error.message;
+    }
+  }
+
+  private editLegDepth(shapeId: string, legIndex: number, allLegs: boolean): void {
+    const shape = this.findShape(shapeId);
+    if (!shape?.pipe) return;
+
+    const numLegs = shape.pipe.legDepths.length;
+    this.editorSvc.open({
+      label: allLegs ? 'Profundidad de todos los tramos' : `Profundidad del tramo ${legIndex + 1}`,
+      value: this.unitsSvc.formatLengthValue(shape.pipe.legDepths[legIndex]),
+      unit: this.unitsSvc.unitLabel(),
+      anchor: this.getEditorAnchor(`leg-${shapeId}-${legIndex}`),
+      apply: (text) => {
+        const depth = this.parsePositiveLength(text);
+        if (typeof depth === 'string') return depth;
+        this.stateSvc.setPipeLegDepth(shapeId, allLegs ? null : legIndex, depth);
+        return null;
+      },
+      navigate: allLegs ? undefined : (direction) => this.editLegDepth(shapeId, (legIndex + direction + numLegs) % numLegs, false),
+    });
+  }
+
+  private editLegLength(shapeId: string, legIndex: number): void {
+    const shape = this.findShape(shapeId);
+    if (!shape?.pipe) return;
+
+    const centerline = shape.pipe.centerline;
+    const numLegs = centerline.length - 1;
+    const p1 = centerline[legIndex];
+    const p2 = centerline[legIndex + 1];
+    this.editorSvc.open({
+      label: `Largo del tramo ${legIndex + 1}`,
+      value: this.unitsSvc.formatLengthValue(Math.hypot(p2.x - p1.x, p2.y - p1.y)),
+      unit: this.unitsSvc.unitLabel(),
+      anchor: this.getEditorAnchor(`leg-label-${shapeId}-${legIndex}`),
+      apply: (text) => {
+        const length = this.parsePositiveLength(text);
+        if (typeof length === 'string') return length;
+        const newCenterline = this.geometrySvc.resizePipeLeg(centerline, legIndex, length);
+        if (!newCenterline) return 'No se puede cambiar el largo de este tramo.';
+        this.stateSvc.setPipeCenterline(shapeId, newCenterline);
+        return null;
+      },
+      navigate: (direction) => this.editLegLength(shapeId, (legIndex + direction + numLegs) % numLegs),
+    });
   }
 }
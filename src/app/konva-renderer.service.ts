@@ -1,7 +1,19 @@
 import { Injectable } from '@angular/core';
 import Konva from 'konva';
-import { DrawingState, DrawingStateService, Shape } from './drawing-state.service';
+import { DrawingState, DrawingStateService, EdgeType, Shape } from './drawing-state.service';
 import { GeometryService } from './geometry.service';
+import { UnitsService } from './units.service';
+
+// Stroke drawn over each finished edge, so exposed edges and their profile read at a glance
+const EDGE_STYLES: { [type in EdgeType]: { stroke: string; strokeWidth: number; dash?: number[] } } = {
+  wall: { stroke: '#57534E', strokeWidth: 3, dash: [8, 5] },
+  polished: { stroke: '#2563EB', strokeWidth: 3 },
+  eased: { stroke: '#16A34A', strokeWidth: 3, dash: [2, 3] },
+  bullnose: { stroke: '#EA580C', strokeWidth: 5 },
+  ogee: { stroke: '#9333EA', strokeWidth: 4, dash: [12, 4, 2, 4] },
+  backsplash: { stroke: '#B45309', strokeWidth: 7 },
+  seam: { stroke: '#DC2626', strokeWidth: 3, dash: [6, 6] },
+};
 
 @Injectable({
   providedIn: 'root'
@@ -11,7 +23,8 @@ export class KonvaRendererService {
 
   constructor(
     private stateSvc: DrawingStateService,
-    private geometrySvc: GeometryService
+    private geometrySvc: GeometryService,
+    private unitsSvc: UnitsService
   ) { }
 
   public initialize(layer: Konva.Layer): void {
@@ -22,12 +35,13 @@ export class KonvaRendererService {
     if (!this.layer) return;
 
     // Clear all existing shapes and handles
-    this.layer.find('.shape, .vertex-handle, .midpoint-handle, .segment-label, .angle-label').forEach(node => node.destroy());
+    this.layer.find('.shape, .vertex-handle, .midpoint-handle, .segment-label, .angle-label, .centerline, .leg-handle, .leg-label, .pipe-end-handle, .constraint-glyph, .edge-finish, .selection-bounds').forEach(node => node.destroy());
 
     // Render all shapes
     state.shapes.forEach(shape => {
-      this.renderShape(shape, state.selectedShapeId === shape.id);
+      this.renderShape(shape, state.selectedShapeIds.includes(shape.id), state.selectedShapeId === shape.id);
     });
+    this.renderSelectionBounds(state);
 
     this.layer.batchDraw();
   }
@@ -36,16 +50,17 @@ export class KonvaRendererService {
     interactionService.updateHandlers();
   }
 
-  private renderShape(shape: Shape, isSelected: boolean): void {
+  private renderShape(shape: Shape, isSelected: boolean, isEditing: boolean): void {
     if (!this.layer) return;
 
     const numVertices = shape.vertices.length;
     if (numVertices === 0) return;
 
-    // Create the shape path
-    const pathData = this.geometrySvc.generatePathData(shape);
+    // Create the shape path; cutouts are subpaths, left unfilled by the even-odd rule
+    const pathData = this.geometrySvc.generateShapePathData(shape);
     const shapePath = new Konva.Path({
       data: pathData,
+      fillRule: 'evenodd',
       stroke: isSelected ? '#0EA5E9' : '#D6D3D1',
       strokeWidth: isSelected ? 3 : 2,
       closed: true,
@@ -55,10 +70,13 @@ export class KonvaRendererService {
       shapeId: shape.id,
     });
     this.layer.add(shapePath);
+    this.renderEdgeFinishes(shape);
 
-    // Show handles only for selected shape, but always show labels
-    if (isSelected) {
+    // Show handles only for the shape being edited, but always show labels
+    if (isEditing) {
       this.renderShapeHandles(shape);
+      this.renderPipeHandles(shape);
+      this.renderConstraintGlyphs(shape);
     } else {
       // For non-selected shapes, show only the segment labels
       this.renderShapeLabels(shape);
@@ -130,6 +148,89 @@ export class KonvaRendererService {
     }
   }
 
+  // Centerline and per-leg handles for shapes drawn with the pipe tool
+  private renderPipeHandles(shape: Shape): void {
+    if (!this.layer || !shape.pipe) return;
+
+    const { centerline } = shape.pipe;
+    const centerlineLine = new Konva.Line({
+      points: centerline.flatMap(p => [p.x, p.y]),
+      stroke: '#F97316',
+      strokeWidth: 1,
+      dash: [6, 4],
+      listening: false,
+      name: 'centerline',
+      id: `centerline-${shape.id}`,
+    });
+    this.layer.add(centerlineLine);
+
+    for (let i = 0; i < centerline.length - 1; i++) {
+      const p1 = centerline[i];
+      const p2 = centerline[i + 1];
+      const legHandle = new Konva.Rect({
+        x: (p1.x + p2.x) / 2,
+        y: (p1.y + p2.y) / 2,
+        width: 10,
+        height: 10,
+        offsetX: 5,
+        offsetY: 5,
+        rotation: 45,
+        fill: '#F97316',
+        stroke: '#C2410C',
+        strokeWidth: 1,
+        draggable: true,
+        name: 'leg-handle',
+        id: `leg-${shape.id}-${i}`,
+        shapeId: shape.id,
+        legIndex: i,
+      });
+      this.layer.add(legHandle);
+
+      const legLabel = new Konva.Text({
+        fontSize: 12,
+        fill: '#C2410C',
+        name: 'leg-label',
+        id: `leg-label-${shape.id}-${i}`,
+        shapeId: shape.id,
+        legIndex: i,
+      });
+      this.updateLegLabel(legLabel, shape, i);
+      this.layer.add(legLabel);
+    }
+
+    // Open ends of the centerline can be dragged to lengthen the end legs
+    [0, centerline.length - 1].forEach(pointIndex => {
+      const endHandle = new Konva.Circle({
+        x: centerline[pointIndex].x,
+        y: centerline[pointIndex].y,
+        radius: 6,
+        fill: '#F97316',
+        stroke: '#C2410C',
+        strokeWidth: 1,
+        draggable: true,
+        name: 'pipe-end-handle',
+        id: `pipe-end-${shape.id}-${pointIndex === 0 ? 'start' : 'end'}`,
+        shapeId: shape.id,
+        pipeEnd: pointIndex === 0 ? 'start' : 'end',
+      });
+      this.layer?.add(endHandle);
+    });
+  }
+
+  public updateLegLabel(label: Konva.Text, shape: Shape, legIndex: number): void {
+    if (!shape.pipe) return;
+    const p1 = shape.pipe.centerline[legIndex];
+    const p2 = shape.pipe.centerline[legIndex + 1];
+    const length = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    label.text(this.unitsSvc.formatLength(length));
+
+    // Sit just past the leg handle, along the leg
+    const isHorizontal = Math.abs(p1.y - p2.y) < Math.abs(p1.x - p2.x);
+    const midpoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+    label.x(midpoint.x + (isHorizontal ? 10 : 8));
+    label.y(midpoint.y + (isHorizontal ? 6 : 8));
+  }
+
   private renderShapeLabels(shape: Shape): void {
     if (!this.layer) return;
 
@@ -152,23 +253,13 @@ export class KonvaRendererService {
   }
 
   private updateSegmentLabel(label: Konva.Text, shape: Shape, segmentIndex: number): void {
-    const { vertices, segmentDepths } = shape;
+    const { vertices } = shape;
     const numVertices = vertices.length;
     const p1 = vertices[segmentIndex];
     const p2 = vertices[(segmentIndex + 1) % numVertices];
-    const depth = segmentDepths[segmentIndex] || 0;
-    const chord = Math.hypot(p2.x - p1.x, p2.y - p1.y);
-    let length = chord;
-
-    if (Math.abs(depth) > 0.1 && chord > 0) {
-      const radius = (depth * depth + (chord / 2) * (chord / 2)) / (2 * depth);
-      if (radius > chord / 2) {
-        const angle = 2 * Math.asin((chord / 2) / Math.abs(radius));
-        length = Math.abs(radius * angle);
-      }
-    }
+    const length = this.geometrySvc.getSegmentLength(shape, segmentIndex);
 
-    label.text(`${Math.round(length)}px`);
+    label.text(this.unitsSvc.formatLength(length));
     const midpointPos = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
 
     const isHorizontal = Math.abs(p1.y - p2.y) < Math.abs(p1.x - p2.x);
@@ -182,28 +273,160 @@ export class KonvaRendererService {
     }
   }
 
-  private updateAngleLabel(label: Konva.Text, shape: Shape, vertexIndex: number): void {
-    const { vertices } = shape;
-    const numVertices = vertices.length;
-    const p_curr = vertices[vertexIndex];
-    const p_prev = vertices[(vertexIndex - 1 + numVertices) % numVertices];
-    const p_next = vertices[(vertexIndex + 1) % numVertices];
-    const v_a = { x: p_prev.x - p_curr.x, y: p_prev.y - p_curr.y };
-    const v_b = { x: p_next.x - p_curr.x, y: p_next.y - p_curr.y };
-    const l_a = Math.hypot(v_a.x, v_a.y);
-    const l_b = Math.hypot(v_b.x, v_b.y);
-    if (l_a === 0 || l_b === 0) { label.hide(); return; }
-    const dotProduct = v_a.x * v_b.x + v_a.y * v_b.y;
-    const cosValue = Math.max(-1, Math.min(1, dotProduct / (l_a * l_b)));
-    const angleRad = Math.acos(cosValue);
-    const angleDeg = angleRad * (180 / Math.PI);
+  // Dashed box around everything selected, when more than one shape is
+  private renderSelectionBounds(state: DrawingState): void {
+    if (!this.layer || state.selectedShapeIds.length < 2) return;
+
+    const boxes = state.shapes
+      .filter(shape => state.selectedShapeIds.includes(shape.id))
+      .map(shape => this.geometrySvc.getShapeBounds(shape))
+      .filter(bounds => bounds !== null);
+    if (boxes.length === 0) return;
+
+    const left = Math.min(...boxes.map(b => b.x));
+    const top = Math.min(...boxes.map(b => b.y));
+    const right = Math.max(...boxes.map(b => b.x + b.width));
+    const bottom = Math.max(...boxes.map(b => b.y + b.height));
+    const margin = 6;
+    this.layer.add(new Konva.Rect({
+      x: left - margin,
+      y: top - margin,
+      width: right - left + margin * 2,
+      height: bottom - top + margin * 2,
+      stroke: '#0EA5E9',
+      strokeWidth: 1,
+      dash: [6, 4],
+      name: 'selection-bounds',
+      listening: false,
+    }));
+  }
+
+  private renderEdgeFinishes(shape: Shape): void {
+    if (!this.layer || !shape.edgeFinishes) return;
+
+    shape.edgeFinishes.forEach((finish, i) => {
+      if (!finish) return;
+      this.layer!.add(new Konva.Path({
+        ...EDGE_STYLES[finish.type],
+        lineCap: 'butt',
+        name: 'edge-finish',
+        id: `edge-finish-${shape.id}-${i}`,
+        listening: false,
+      }));
+    });
+    this.updateEdgeFinishes(shape);
+  }
+
+  // Also called while dragging, so the edge strokes follow the preview
+  public updateEdgeFinishes(shape: Shape): void {
+    if (!this.layer) return;
+
+    shape.vertices.forEach((_, i) => {
+      const edge = this.layer!.findOne<Konva.Path>(`#edge-finish-${shape.id}-${i}`);
+      if (!edge) return;
+      const [start, end] = this.geometrySvc.getSegmentOutline(shape, i);
+      const chord = Math.hypot(end.x - start.x, end.y - start.y);
+      if (start.bulge === 0 || chord === 0) {
+        edge.data(`M ${start.x} ${start.y} L ${end.x} ${end.y}`);
+        return;
+      }
+      const radius = chord * (1 + start.bulge * start.bulge) / (4 * Math.abs(start.bulge));
+      edge.data(`M ${start.x} ${start.y} A ${radius} ${radius} 0 0 ${start.bulge > 0 ? 1 : 0} ${end.x} ${end.y}`);
+    });
+  }
+
+  // Constraint symbols, opposite the dimension labels: one text per segment listing
+  // what holds it, and ∠ outside each corner with a fixed angle
+  private renderConstraintGlyphs(shape: Shape): void {
+    if (!this.layer || !shape.constraints?.length) return;
+
+    for (let i = 0; i < shape.vertices.length; i++) {
+      ['segment', 'corner'].forEach(kind => this.layer!.add(new Konva.Text({
+        fontSize: 12,
+        fill: '#7C3AED',
+        name: 'constraint-glyph',
+        id: `${kind}-glyph-${shape.id}-${i}`,
+        listening: false,
+      })));
+    }
+    this.updateConstraintGlyphs(shape);
+  }
+
+  // Also called while dragging, so the glyphs follow the preview
+  public updateConstraintGlyphs(shape: Shape): void {
+    if (!this.layer) return;
+
+    const numVertices = shape.vertices.length;
+    const segmentGlyphs: string[][] = shape.vertices.map(() => []);
+    const fixedCorners = new Set<number>();
+    // Pairs are numbered per kind, so ∥1 marks the two segments of the first parallel pair
+    const pairSymbols = { parallel: '∥', perpendicular: '⊥', equal: '=' };
+    const pairCounts = { parallel: 0, perpendicular: 0, equal: 0 };
+    (shape.constraints ?? []).forEach(c => {
+      switch (c.type) {
+        case 'horizontal':
+          segmentGlyphs[c.segment]?.push('H');
+          break;
+        case 'vertical':
+          segmentGlyphs[c.segment]?.push('V');
+          break;
+        case 'length':
+          segmentGlyphs[c.segment]?.push('↔');
+          break;
+        case 'angle':
+          fixedCorners.add(c.vertex);
+          break;
+        default: {
+          const symbol = `${pairSymbols[c.type]}${++pairCounts[c.type]}`;
+          c.segments.forEach(segment => segmentGlyphs[segment]?.push(symbol));
+        }
+      }
+    });
+
+    for (let i = 0; i < numVertices; i++) {
+      const segmentGlyph = this.layer.findOne<Konva.Text>(`#segment-glyph-${shape.id}-${i}`);
+      if (segmentGlyph) {
+        const p1 = shape.vertices[i];
+        const p2 = shape.vertices[(i + 1) % numVertices];
+        const midpoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+        const isHorizontal = Math.abs(p1.y - p2.y) < Math.abs(p1.x - p2.x);
+        const offset = 15;
+        segmentGlyph.text(segmentGlyphs[i].join(' '));
+        if (isHorizontal) {
+          segmentGlyph.x(midpoint.x - segmentGlyph.width() / 2);
+          segmentGlyph.y(midpoint.y + offset - segmentGlyph.height() / 2);
+        } else {
+          segmentGlyph.x(midpoint.x - offset - segmentGlyph.width());
+          segmentGlyph.y(midpoint.y - segmentGlyph.height() / 2);
+        }
+      }
+
+      const cornerGlyph = this.layer.findOne<Konva.Text>(`#corner-glyph-${shape.id}-${i}`);
+      if (cornerGlyph) {
+        const bisector = this.geometrySvc.getVertexBisector(shape, i);
+        if (!fixedCorners.has(i) || !bisector) {
+          cornerGlyph.hide();
+          continue;
+        }
+        const vertex = shape.vertices[i];
+        const offset = 18;
+        cornerGlyph.text('∠');
+        cornerGlyph.x(vertex.x - bisector.x * offset);
+        cornerGlyph.y(vertex.y - bisector.y * offset);
+        cornerGlyph.offsetX(cornerGlyph.width() / 2);
+        cornerGlyph.offsetY(cornerGlyph.height() / 2);
+        cornerGlyph.show();
+      }
+    }
+  }
+
+  // Interior angle, reflex corners reading above 180 as in the angle editor
+  public updateAngleLabel(label: Konva.Text, shape: Shape, vertexIndex: number): void {
+    const angleDeg = this.geometrySvc.getInteriorAngle(shape, vertexIndex);
+    const norm_bi = this.geometrySvc.getVertexBisector(shape, vertexIndex);
+    if (angleDeg === null || !norm_bi) { label.hide(); return; }
     label.text(`${angleDeg.toFixed(1)}°`);
-    const norm_a = { x: v_a.x / l_a, y: v_a.y / l_a };
-    const norm_b = { x: v_b.x / l_b, y: v_b.y / l_b };
-    const bisector = { x: norm_a.x + norm_b.x, y: norm_a.y + norm_b.y };
-    const l_bi = Math.hypot(bisector.x, bisector.y);
-    if (l_bi === 0) { label.hide(); return; }
-    const norm_bi = { x: bisector.x / l_bi, y: bisector.y / l_bi };
+    const p_curr = shape.vertices[vertexIndex];
     const offset = 25;
     label.x(p_curr.x + norm_bi.x * offset);
     label.y(p_curr.y + norm_bi.y * offset);
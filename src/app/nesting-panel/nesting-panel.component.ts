@@ -0,0 +1,212 @@
+import { AfterViewInit, ChangeDetectorRef, Component, ElementRef, EventEmitter, OnDestroy, OnInit, Output, QueryList, ViewChildren } from '@angular/core';
+import Konva from 'konva';
+import { Subscription, debounceTime, distinctUntilChanged, map, skip } from 'rxjs';
+import { DrawingStateService, Shape } from '../drawing-state.service';
+import { GeometryService } from '../geometry.service';
+import { NestingResult, NestingService } from '../nesting.service';
+import { UnitsService } from '../units.service';
+
+const VIEW_WIDTH = 360; // Pixels on screen for the width of each slab
+const NESTING_DEBOUNCE_MS = 300;
+
+// How the pieces of the drawing would be cut from stock slabs, one small canvas per slab,
+// with the material yield of the layout. Pieces are numbered as in the takeoff panel.
+@Component({
+  selector: 'app-nesting-panel',
+  standalone: true,
+  templateUrl: './nesting-panel.component.html',
+  styleUrls: ['./nesting-panel.component.scss'],
+})
+export class NestingPanelComponent implements OnInit, AfterViewInit, OnDestroy {
+  @Output() closed = new EventEmitter<void>();
+  @ViewChildren('slabView') slabViews: QueryList<ElementRef<HTMLDivElement>> | undefined;
+
+  result: NestingResult | null = null;
+
+  private shapes: Shape[] = [];
+  private stages: Konva.Stage[] = [];
+  private viewReady = false;
+  private stateSubscription: Subscription | undefined;
+
+  constructor(
+    private stateSvc: DrawingStateService,
+    private geometrySvc: GeometryService,
+    private nestingSvc: NestingService,
+    private unitsSvc: UnitsService,
+    private changeDetector: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.update();
+    // Laying out is slow, so only the pieces and the scale count (not selection), and a
+    // run of edits such as a drag is laid out once it settles
+    this.stateSubscription = this.stateSvc.state$
+      .pipe(
+        map(state => ({ shapes: state.shapes, settings: state.settings })),
+        distinctUntilChanged((a, b) => a.shapes === b.shapes && a.settings === b.settings),
+        skip(1),
+        debounceTime(NESTING_DEBOUNCE_MS)
+      )
+      .subscribe(() => this.update());
+  }
+
+  ngAfterViewInit(): void {
+    this.viewReady = true;
+    this.renderSlabs();
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+    this.stages.forEach(stage => stage.destroy());
+  }
+
+  get unitLabel(): string {
+    return this.unitsSvc.unitLabel();
+  }
+
+  get slabWidth(): string {
+    return this.unitsSvc.formatLengthValue(this.unitsSvc.mmToPx(this.nestingSvc.slabWidthMm));
+  }
+
+  get slabHeight(): string {
+    return this.unitsSvc.formatLengthValue(this.unitsSvc.mmToPx(this.nestingSvc.slabHeightMm));
+  }
+
+  get kerf(): string {
+    return this.unitsSvc.formatLengthValue(this.unitsSvc.mmToPx(this.nestingSvc.kerfMm));
+  }
+
+  get allowRotation(): boolean {
+    return this.nestingSvc.allowRotation;
+  }
+
+  get summary(): string {
+    if (!this.result) return '';
+    const slabs = this.result.slabs.length;
+    return `${slabs} ${slabs === 1 ? 'placa' : 'placas'} · aprovechamiento ${this.formatPercent(this.result.yield)}`
+      + ` · desperdicio ${this.unitsSvc.formatArea(this.result.wasteArea)}`;
+  }
+
+  get unplacedPieces(): string {
+    return (this.result?.unplacedShapeIds ?? []).map(id => this.pieceNumber(id)).join(', ');
+  }
+
+  setSlabWidth(input: HTMLInputElement): void {
+    const width = this.unitsSvc.parseLength(input.value);
+    if (width !== null && width > 0) {
+      this.nestingSvc.slabWidthMm = this.unitsSvc.pxToMm(width);
+      this.update();
+    }
+    input.value = this.slabWidth;
+  }
+
+  setSlabHeight(input: HTMLInputElement): void {
+    const height = this.unitsSvc.parseLength(input.value);
+    if (height !== null && height > 0) {
+      this.nestingSvc.slabHeightMm = this.unitsSvc.pxToMm(height);
+      this.update();
+    }
+    input.value = this.slabHeight;
+  }
+
+  setKerf(input: HTMLInputElement): void {
+    const kerf = this.unitsSvc.parseLength(input.value);
+    if (kerf !== null && kerf >= 0) {
+      this.nestingSvc.kerfMm = this.unitsSvc.pxToMm(kerf);
+      this.update();
+    }
+    input.value = this.kerf;
+  }
+
+  setAllowRotation(allowRotation: boolean): void {
+    this.nestingSvc.allowRotation = allowRotation;
+    this.update();
+  }
+
+  formatPercent(fraction: number): string {
+    return `${(fraction * 100).toFixed(1)} %`;
+  }
+
+  private update(): void {
+    this.shapes = this.stateSvc.getState().shapes;
+    this.result = this.nestingSvc.nest(this.shapes, {
+      slabWidth: this.unitsSvc.mmToPx(this.nestingSvc.slabWidthMm),
+      slabHeight: this.unitsSvc.mmToPx(this.nestingSvc.slabHeightMm),
+      kerf: this.unitsSvc.mmToPx(this.nestingSvc.kerfMm),
+      allowRotation: this.nestingSvc.allowRotation,
+    });
+    if (!this.viewReady) return;
+    // The slab containers have to exist before their canvases can be drawn
+    this.changeDetector.detectChanges();
+    this.renderSlabs();
+  }
+
+  private renderSlabs(): void {
+    this.stages.forEach(stage => stage.destroy());
+    this.stages = [];
+    const containers = this.slabViews?.toArray() ?? [];
+    if (!this.result) return;
+
+    const slabWidth = this.unitsSvc.mmToPx(this.nestingSvc.slabWidthMm);
+    const slabHeight = this.unitsSvc.mmToPx(this.nestingSvc.slabHeightMm);
+    const scale = VIEW_WIDTH / slabWidth;
+
+    this.result.slabs.forEach((slab, i) => {
+      const container = containers[i];
+      if (!container) return;
+      const stage = new Konva.Stage({
+        container: container.nativeElement,
+        width: VIEW_WIDTH,
+        height: Math.ceil(slabHeight * scale),
+      });
+      const layer = new Konva.Layer({ listening: false });
+      stage.add(layer);
+      layer.add(new Konva.Rect({
+        width: slabWidth * scale,
+        height: slabHeight * scale,
+        fill: '#F5F5F4',
+        stroke: '#78716C',
+        strokeWidth: 1,
+      }));
+
+      const pieces = new Konva.Group({ scaleX: scale, scaleY: scale });
+      layer.add(pieces);
+      slab.placements.forEach(placement => {
+        const shape = this.shapes.find(s => s.id === placement.shapeId);
+        if (!shape) return;
+        pieces.add(new Konva.Path({
+          data: this.geometrySvc.generateShapePathData(shape),
+          x: placement.x,
+          y: placement.y,
+          rotation: placement.rotation,
+          fill: 'rgba(173, 216, 230, 0.5)',
+          fillRule: 'evenodd',
+          stroke: '#57534E',
+          strokeWidth: 1,
+          strokeScaleEnabled: false,
+        }));
+
+        // Number the piece at its centroid, unscaled so it stays readable
+        const centroid = this.geometrySvc.getShapeCentroid(shape);
+        if (!centroid) return;
+        const angle = placement.rotation * Math.PI / 180;
+        const label = new Konva.Text({
+          x: (centroid.x * Math.cos(angle) - centroid.y * Math.sin(angle) + placement.x) * scale,
+          y: (centroid.x * Math.sin(angle) + centroid.y * Math.cos(angle) + placement.y) * scale,
+          text: String(this.pieceNumber(shape.id)),
+          fontSize: 11,
+          fill: '#1C1917',
+        });
+        label.offsetX(label.width() / 2);
+        label.offsetY(label.height() / 2);
+        layer.add(label);
+      });
+      layer.draw();
+      this.stages.push(stage);
+    });
+  }
+
+  private pieceNumber(shapeId: string): number {
+    return this.shapes.findIndex(s => s.id === shapeId) + 1;
+  }
+}
@@ -0,0 +1,87 @@
+import { TestBed } from '@angular/core/testing';
+import { Shape } from './drawing-state.service';
+import { GeometryService } from './geometry.service';
+import { NestingOptions, NestingService } from './nesting.service';
+
+describe('NestingService', () => {
+  let service: NestingService;
+
+  const rectangle = (id: string, width: number, height: number): Shape => ({
+    id,
+    vertices: [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }],
+    cornerRadii: [0, 0, 0, 0],
+    segmentDepths: [0, 0, 0, 0],
+  });
+
+  const options: NestingOptions = { slabWidth: 200, slabHeight: 200, kerf: 0, allowRotation: true };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(NestingService);
+  });
+
+  it('should fill a slab exactly when there is no kerf', () => {
+    const squares = ['a', 'b', 'c', 'd'].map(id => rectangle(id, 100, 100));
+    const result = service.nest(squares, options);
+    expect(result.slabs.length).toBe(1);
+    expect(result.yield).toBeCloseTo(1);
+    expect(result.wasteArea).toBeCloseTo(0);
+  });
+
+  it('should keep the kerf between pieces', () => {
+    const squares = ['a', 'b', 'c', 'd'].map(id => rectangle(id, 100, 100));
+    expect(service.nest(squares, { ...options, kerf: 10 }).slabs.length).toBe(4);
+
+    const result = service.nest(squares, { ...options, slabWidth: 210, slabHeight: 210, kerf: 10 });
+    expect(result.slabs.length).toBe(1);
+    expect(result.wasteArea).toBeCloseTo(210 * 210 - 4 * 100 * 100);
+  });
+
+  it('should turn a piece to fit the slab, unless rotation is off', () => {
+    const piece = rectangle('long', 300, 100);
+    const slab = { ...options, slabWidth: 100, slabHeight: 300 };
+    const placement = service.nest([piece], slab).slabs[0].placements[0];
+    expect(placement.rotation === 90 || placement.rotation === 270).toBeTrue();
+
+    const result = service.nest([piece], { ...slab, allowRotation: false });
+    expect(result.slabs.length).toBe(0);
+    expect(result.unplacedShapeIds).toEqual(['long']);
+  });
+
+  it('should tuck a small piece into the notch of an L', () => {
+    const l: Shape = {
+      id: 'l',
+      vertices: [{ x: 0, y: 0 }, { x: 300, y: 0 }, { x: 300, y: 100 }, { x: 100, y: 100 }, { x: 100, y: 300 }, { x: 0, y: 300 }],
+      cornerRadii: [0, 0, 0, 0, 0, 0],
+      segmentDepths: [0, 0, 0, 0, 0, 0],
+    };
+    const result = service.nest([rectangle('small', 150, 150), l], { ...options, slabWidth: 300, slabHeight: 300 });
+    expect(result.slabs.length).toBe(1);
+    expect(result.slabs[0].placements.map(p => p.shapeId)).toEqual(['l', 'small']);
+  });
+
+  it('should keep the kerf between curved edges, not just between their chords', () => {
+    // The slanted left side bows out, furthest between two of the points it's drawn with
+    const leaning = (id: string): Shape => ({
+      ...rectangle(id, 100, 100),
+      vertices: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 40, y: 100 }],
+      segmentDepths: [0, 0, 0, -20],
+    });
+    const kerf = 10;
+    const result = service.nest([leaning('a'), leaning('b')], { slabWidth: 300, slabHeight: 150, kerf, allowRotation: false });
+    expect(result.slabs.length).toBe(1);
+    const [a, b] = result.slabs[0].placements;
+    expect(b.y).toBeCloseTo(a.y, 6);
+
+    const bounds = TestBed.inject(GeometryService).getShapeBounds(leaning('a'))!;
+    expect(a.x + bounds.x).toBeGreaterThanOrEqual(-1e-6);
+    // b's curved side faces a's straight right side
+    expect((b.x + bounds.x) - (a.x + bounds.x + bounds.width)).toBeGreaterThanOrEqual(kerf - 1e-6);
+  });
+
+  it('should lay out the same pieces the same way every time', () => {
+    const pieces = Array.from({ length: 12 }, (_, i) => rectangle(`p${i}`, 40 + (i * 37) % 120, 30 + (i * 53) % 90));
+    const slab = { slabWidth: 300, slabHeight: 200, kerf: 4, allowRotation: true };
+    expect(service.nest(pieces, slab)).toEqual(service.nest(pieces, slab));
+  });
+});
@@ -0,0 +1,355 @@
+import { Injectable } from '@angular/core';
+import { Shape } from './drawing-state.service';
+import { GeometryService } from './geometry.service';
+
+export type NestingRotation = 0 | 90 | 180 | 270;
+
+// Lengths in drawing pixels, like the shapes
+export interface NestingOptions {
+  slabWidth: number;
+  slabHeight: number;
+  kerf: number; // Width of the saw cut, kept clear between pieces
+  allowRotation: boolean;
+}
+
+// The shape is turned about its own origin (clockwise on screen, as Konva does) and
+// then moved by x, y onto the slab
+export interface NestingPlacement {
+  shapeId: string;
+  rotation: NestingRotation;
+  x: number;
+  y: number;
+}
+
+export interface NestingSlab {
+  placements: NestingPlacement[];
+  pieceArea: number;
+  yield: number; // Share of the slab taken by pieces, 0 to 1
+}
+
+export interface NestingResult {
+  slabs: NestingSlab[];
+  unplacedShapeIds: string[]; // Pieces that don't fit on an empty slab
+  pieceArea: number;
+  slabArea: number; // Of all the slabs used
+  yield: number;
+  wasteArea: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// A piece's flattened outline, which arcs may bulge past by up to the margin, with what
+// the clash test needs worked out once
+interface Outline {
+  polygon: Point[];
+  margin: number;
+  edges: { p: Point; q: Point; bounds: Bounds }[];
+  inside: Point; // Any point inside the polygon
+}
+
+// A piece turned to one rotation and moved so its bounds, margin included, start at 0, 0
+interface Orientation extends Outline {
+  rotation: NestingRotation;
+  top: Point[]; // Highest point of the piece, margin included, at each vertex's column
+  offset: Point; // Added to the turned shape to bring it there
+  width: number;
+  height: number;
+}
+
+interface PlacedPiece extends Outline {
+  bounds: Bounds;
+}
+
+interface SlabLayout {
+  placements: NestingPlacement[];
+  pieces: PlacedPiece[];
+  pieceArea: number;
+}
+
+// Pieces never quite touch, even without kerf, so a clash is simply two outlines closer
+// than the gap
+const MIN_GAP = 1e-6;
+const TOLERANCE = 1e-9;
+// How far a piece may run over the slab edge, so rows of pieces kept MIN_GAP apart
+// still fill a slab exactly
+const SLAB_TOLERANCE = 1e-3;
+
+// cos and sin of each rotation, exact so layouts come out the same everywhere
+const ROTATIONS: { [rotation in NestingRotation]: [number, number] } = {
+  0: [1, 0],
+  90: [0, 1],
+  180: [-1, 0],
+  270: [0, -1],
+};
+
+// Lays the pieces out on as few slabs as it can. Largest pieces go first, each one at
+// the topmost, then leftmost, spot where it fits on the earliest slab that has room,
+// trying every allowed rotation; a new slab is started when none has room. Spots line a
+// piece up against the slab edges or a vertex of a piece already placed, so smaller
+// pieces tuck into the notches of larger ones. Spots above the bottom of a placed piece
+// (behind the skyline) have already been passed over and aren't tried again. There is
+// no randomness: the same pieces and options always give the same layout.
+@Injectable({
+  providedIn: 'root'
+})
+export class NestingService {
+  // Slab and saw last chosen in the layout view, in mm so they keep their size when the
+  // drawing scale changes
+  public slabWidthMm = 3050;
+  public slabHeightMm = 1440;
+  public kerfMm = 4;
+  public allowRotation = true;
+
+  constructor(private geometrySvc: GeometryService) {}
+
+  nest(shapes: Shape[], options: NestingOptions): NestingResult {
+    const gap = Math.max(options.kerf, MIN_GAP);
+    const rotations: NestingRotation[] = options.allowRotation ? [0, 90, 180, 270] : [0];
+    const pieces = shapes
+      .map((shape, index) => ({
+        shape,
+        index,
+        area: this.geometrySvc.getArea(shape),
+        polygon: this.geometrySvc.getFlattenedOutline(shape),
+        margin: this.geometrySvc.getFlatteningError(shape),
+      }))
+      .filter(piece => piece.polygon.length >= 3)
+      .sort((a, b) => b.area - a.area || a.index - b.index);
+
+    const layouts: SlabLayout[] = [];
+    const unplacedShapeIds: string[] = [];
+    pieces.forEach(piece => {
+      const orientations = rotations
+        .map(rotation => this.orient(piece.polygon, piece.margin, rotation))
+        .filter(o => o.width <= options.slabWidth + SLAB_TOLERANCE && o.height <= options.slabHeight + SLAB_TOLERANCE);
+      if (orientations.length === 0) {
+        unplacedShapeIds.push(piece.shape.id);
+        return;
+      }
+
+      for (const layout of layouts) {
+        if (this.place(layout, piece.shape.id, piece.area, orientations, options, gap)) return;
+      }
+      const layout: SlabLayout = { placements: [], pieces: [], pieceArea: 0 };
+      layouts.push(layout);
+      this.place(layout, piece.shape.id, piece.area, orientations, options, gap);
+    });
+
+    const slabArea = options.slabWidth * options.slabHeight;
+    const pieceArea = layouts.reduce((sum, layout) => sum + layout.pieceArea, 0);
+    const totalSlabArea = slabArea * layouts.length;
+    return {
+      slabs: layouts.map(layout => ({
+        placements: layout.placements,
+        pieceArea: layout.pieceArea,
+        yield: slabArea > 0 ? layout.pieceArea / slabArea : 0,
+      })),
+      unplacedShapeIds,
+      pieceArea,
+      slabArea: totalSlabArea,
+      yield: totalSlabArea > 0 ? pieceArea / totalSlabArea : 0,
+      wasteArea: totalSlabArea - pieceArea,
+    };
+  }
+
+  // Puts the piece at the best free spot on the slab; false if there is none
+  private place(
+    layout: SlabLayout, shapeId: string, area: number, orientations: Orientation[], options: NestingOptions, gap: number
+  ): boolean {
+    // Pieces can't overlap, so a slab with less room left than the piece needs is full
+    const slabArea = options.slabWidth * options.slabHeight;
+    if (area > slabArea - layout.pieceArea + SLAB_TOLERANCE * (options.slabWidth + options.slabHeight)) return false;
+
+    let best: { orientation: Orientation; x: number; y: number } | null = null;
+    for (const orientation of orientations) {
+      const spot = this.findSpot(layout, orientation, options, gap, best ? best.y + TOLERANCE : Infinity);
+      if (spot && (!best || spot.y < best.y - TOLERANCE || (Math.abs(spot.y - best.y) <= TOLERANCE && spot.x < best.x - TOLERANCE))) {
+        best = { orientation, ...spot };
+      }
+    }
+    if (!best) return false;
+
+    const { orientation, x, y } = best;
+    const polygon = orientation.polygon.map(p => ({ x: p.x + x, y: p.y + y }));
+    layout.pieces.push({
+      ...this.outline(polygon, orientation.margin),
+      bounds: { minX: x, minY: y, maxX: x + orientation.width, maxY: y + orientation.height },
+    });
+    layout.placements.push({
+      shapeId,
+      rotation: orientation.rotation,
+      x: orientation.offset.x + x,
+      y: orientation.offset.y + y,
+    });
+    layout.pieceArea += area;
+    return true;
+  }
+
+  // Topmost, then leftmost, spot where the piece fits without coming within the gap of
+  // another piece, no lower than maxY. Each row only lines the piece up against the
+  // pieces that reach into it: the others can't be beside it there.
+  private findSpot(
+    layout: SlabLayout, orientation: Orientation, options: NestingOptions, gap: number, maxY: number
+  ): Point | null {
+    const { width, height } = orientation;
+    const skyline = new Map<number, number>();
+    const skylineAt = (column: number) => {
+      if (!skyline.has(column)) skyline.set(column, this.getSkyline(layout.pieces, column));
+      return skyline.get(column)!;
+    };
+    const ys = [0, options.slabHeight - height];
+    layout.pieces.forEach(piece => piece.polygon.forEach(p => {
+      ys.push(p.y + piece.margin + gap, p.y - piece.margin - gap - height);
+    }));
+    const candidatesY = this.sortedUnique(
+      ys.filter(y => y >= -TOLERANCE && y + height <= options.slabHeight + SLAB_TOLERANCE && y <= maxY)
+    );
+
+    for (const y of candidatesY) {
+      const top = y - gap;
+      const bottom = y + height + gap;
+      const row = layout.pieces.filter(piece => piece.bounds.minY < bottom && piece.bounds.maxY > top);
+      const xs = [0, options.slabWidth - width];
+      row.forEach(piece => piece.polygon.forEach(p => {
+        if (p.y + piece.margin < top || p.y - piece.margin > bottom) return;
+        xs.push(p.x + piece.margin + gap, p.x - piece.margin - gap - width);
+      }));
+      const candidatesX = this.sortedUnique(xs.filter(x => x >= -TOLERANCE && x + width <= options.slabWidth + SLAB_TOLERANCE));
+      for (const x of candidatesX) {
+        // Space above the bottom of a placed piece has been passed over already
+        if (orientation.top.some(t => y + t.y < skylineAt(x + t.x) + gap - TOLERANCE)) continue;
+        if (this.fits(row, orientation, x, y, gap)) return { x, y };
+      }
+    }
+    return null;
+  }
+
+  private fits(pieces: PlacedPiece[], orientation: Orientation, x: number, y: number, gap: number): boolean {
+    const bounds = { minX: x, minY: y, maxX: x + orientation.width, maxY: y + orientation.height };
+    return pieces.every(piece =>
+      this.boundsApart(bounds, piece.bounds, gap) || !this.outlinesClash(orientation, x, y, piece, gap + orientation.margin + piece.margin)
+    );
+  }
+
+  // True if outline a, moved by x, y, comes closer than the gap to outline b or one lies
+  // inside the other. Overlapping pieces are usually caught by the cheap inside test;
+  // otherwise only edges whose bounds come within the gap of each other are measured.
+  private outlinesClash(a: Outline, x: number, y: number, b: Outline, gap: number): boolean {
+    if (this.geometrySvc.isPointInPolygon({ x: a.inside.x + x, y: a.inside.y + y }, b.polygon)
+      || this.geometrySvc.isPointInPolygon({ x: b.inside.x - x, y: b.inside.y - y }, a.polygon)) {
+      return true;
+    }
+    const near = (ea: Bounds, eb: Bounds) => !(ea.minX + x >= eb.maxX + gap - TOLERANCE || eb.minX >= ea.maxX + x + gap - TOLERANCE
+      || ea.minY + y >= eb.maxY + gap - TOLERANCE || eb.minY >= ea.maxY + y + gap - TOLERANCE);
+    return a.edges.some(ea => b.edges.some(eb => near(ea.bounds, eb.bounds) && this.segmentDistance(
+      { x: ea.p.x + x, y: ea.p.y + y }, { x: ea.q.x + x, y: ea.q.y + y }, eb.p, eb.q
+    ) < gap - TOLERANCE));
+  }
+
+  private boundsApart(a: Bounds, b: Bounds, gap: number): boolean {
+    return a.minX >= b.maxX + gap - TOLERANCE || b.minX >= a.maxX + gap - TOLERANCE
+      || a.minY >= b.maxY + gap - TOLERANCE || b.minY >= a.maxY + gap - TOLERANCE;
+  }
+
+  private segmentDistance(a1: Point, a2: Point, b1: Point, b2: Point): number {
+    if (this.geometrySvc.segmentsIntersect(a1, a2, b1, b2)) return 0;
+    return Math.min(
+      this.pointSegmentDistance(a1, b1, b2),
+      this.pointSegmentDistance(a2, b1, b2),
+      this.pointSegmentDistance(b1, a1, a2),
+      this.pointSegmentDistance(b2, a1, a2)
+    );
+  }
+
+  private pointSegmentDistance(p: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+  }
+
+  private orient(polygon: Point[], margin: number, rotation: NestingRotation): Orientation {
+    const [cos, sin] = ROTATIONS[rotation];
+    const turned = polygon.map(p => ({ x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos }));
+    const bounds = this.getBounds(turned);
+    const offset = { x: margin - bounds.minX, y: margin - bounds.minY };
+    const moved = turned.map(p => ({ x: p.x + offset.x, y: p.y + offset.y }));
+    return {
+      ...this.outline(moved, margin),
+      rotation,
+      top: moved.map(p => ({ x: p.x, y: this.getColumnExtent(moved, p.x, 'top') - margin })),
+      offset,
+      width: bounds.maxX - bounds.minX + 2 * margin,
+      height: bounds.maxY - bounds.minY + 2 * margin,
+    };
+  }
+
+  // Lowest bottom of the placed pieces, margin included, in a column of the slab
+  private getSkyline(pieces: PlacedPiece[], column: number): number {
+    return pieces.reduce((lowest, piece) => column < piece.bounds.minX || column > piece.bounds.maxX
+      ? lowest
+      : Math.max(lowest, this.getColumnExtent(piece.polygon, column, 'bottom') + piece.margin), -Infinity);
+  }
+
+  // Highest or lowest point of the polygon in a column, -Infinity / Infinity if it
+  // doesn't reach it
+  private getColumnExtent(polygon: Point[], column: number, side: 'top' | 'bottom'): number {
+    let extent = side === 'top' ? Infinity : -Infinity;
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length];
+      if (column < Math.min(a.x, b.x) || column > Math.max(a.x, b.x)) return;
+      const ys = a.x === b.x ? [a.y, b.y] : [a.y + (column - a.x) / (b.x - a.x) * (b.y - a.y)];
+      extent = side === 'top' ? Math.min(extent, ...ys) : Math.max(extent, ...ys);
+    });
+    return extent;
+  }
+
+  private outline(polygon: Point[], margin: number): Outline {
+    const edges = polygon.map((p, i) => {
+      const q = polygon[(i + 1) % polygon.length];
+      return { p, q, bounds: this.getBounds([p, q]) };
+    });
+    return { polygon, margin, edges, inside: this.getInsidePoint(polygon) };
+  }
+
+  // The middle of the first stretch of the polygon's mid-height line that lies inside it
+  private getInsidePoint(polygon: Point[]): Point {
+    const bounds = this.getBounds(polygon);
+    const y = (bounds.minY + bounds.maxY) / 2;
+    const xs: number[] = [];
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length];
+      if ((a.y > y) !== (b.y > y)) xs.push(a.x + (y - a.y) / (b.y - a.y) * (b.x - a.x));
+    });
+    xs.sort((a, b) => a - b);
+    const inside = { x: (xs[0] + xs[1]) / 2, y };
+    return xs.length >= 2 && this.geometrySvc.isPointInPolygon(inside, polygon) ? inside : polygon[0];
+  }
+
+  private getBounds(polygon: Point[]): Bounds {
+    return {
+      minX: Math.min(...polygon.map(p => p.x)),
+      minY: Math.min(...polygon.map(p => p.y)),
+      maxX: Math.max(...polygon.map(p => p.x)),
+      maxY: Math.max(...polygon.map(p => p.y)),
+    };
+  }
+
+  private sortedUnique(values: number[]): number[] {
+    return [...values]
+      .sort((a, b) => a - b)
+      .filter((value, i, sorted) => i === 0 || value - sorted[i - 1] > TOLERANCE)
+      .map(value => Math.max(0, value));
+  }
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+export interface Notice {
+  message: string;
+  // Page coordinates the notice is shown at
+  anchor: { x: number; y: number };
+}
+
+// Shows a short message next to where the user acted, such as why an edit was refused.
+// Unlike alert() it doesn't block: it goes away on the next click or after a while.
+@Injectable({
+  providedIn: 'root'
+})
+export class NoticeService {
+  private readonly _notice = new BehaviorSubject<Notice | null>(null);
+
+  readonly notice$ = this._notice.asObservable();
+
+  show(notice: Notice): void {
+    this._notice.next(notice);
+  }
+
+  dismiss(): void {
+    this._notice.next(null);
+  }
+}
@@ -0,0 +1,44 @@
+import { Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { Notice, NoticeService } from '../notice.service';
+
+const NOTICE_DURATION_MS = 5000;
+
+@Component({
+  selector: 'app-notice',
+  standalone: true,
+  templateUrl: './notice.component.html',
+  styleUrls: ['./notice.component.scss'],
+})
+export class NoticeComponent implements OnInit, OnDestroy {
+  notice: Notice | null = null;
+
+  private noticeSubscription: Subscription | undefined;
+  private dismissTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private noticeSvc: NoticeService) {}
+
+  ngOnInit(): void {
+    this.noticeSubscription = this.noticeSvc.notice$.subscribe(notice => {
+      this.notice = notice;
+      clearTimeout(this.dismissTimer);
+      if (notice) {
+        this.dismissTimer = setTimeout(() => this.noticeSvc.dismiss(), NOTICE_DURATION_MS);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.noticeSubscription?.unsubscribe();
+    clearTimeout(this.dismissTimer);
+  }
+
+  // The next click or key press anywhere dismisses the notice
+  @HostListener('document:pointerdown')
+  @HostListener('document:keydown')
+  onDocumentInput(): void {
+    if (this.notice) {
+      this.noticeSvc.dismiss();
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { Injectable } from '@angular/core';
+import Konva from 'konva';
+import { DrawingStateService } from './drawing-state.service';
+import { ViewportService } from './viewport.service';
+
+type Point = { x: number; y: number };
+
+// What a set of moving points snapped to. dx/dy are the corrections to add to the
+// points; an axis that didn't snap is left free (and can still go to the grid).
+export interface ObjectSnapResult {
+  dx: number;
+  dy: number;
+  snappedX: boolean;
+  snappedY: boolean;
+  // Target the corrected point ends on, for the point, edge and extension snaps
+  target?: { point: Point; pointIndex: number; line?: [Point, Point] };
+  // Targets the corrected points line up with, for the alignment snaps
+  alignX?: { point: Point; pointIndex: number };
+  alignY?: { point: Point; pointIndex: number };
+}
+
+const NO_SNAP: ObjectSnapResult = { dx: 0, dy: 0, snappedX: false, snappedY: false };
+
+// Smart guides: snapping to other shapes' vertices, segment midpoints, edges,
+// edge extensions and horizontal/vertical alignments, in that order of priority
+@Injectable({
+  providedIn: 'root'
+})
+export class ObjectSnapService {
+  private layer: Konva.Layer | undefined;
+
+  // Snap distance in screen pixels, so it feels the same at any zoom; 0 turns snapping off
+  public tolerancePx = 8;
+
+  constructor(
+    private stateSvc: DrawingStateService,
+    private viewportSvc: ViewportService
+  ) { }
+
+  public initialize(layer: Konva.Layer): void {
+    this.layer = layer;
+  }
+
+  // axis restricts the snap to a drag that can only move along x or y
+  public snap(points: Point[], excludeShapeIds: string[], axis?: 'x' | 'y'): ObjectSnapResult {
+    const tolerance = this.tolerancePx / this.viewportSvc.scale;
+    if (tolerance <= 0 || points.length === 0) return NO_SNAP;
+
+    const shapes = this.stateSvc.getState().shapes.filter(shape => !excludeShapeIds.includes(shape.id));
+    const targets: Point[] = [];
+    const edges: [Point, Point][] = [];
+    shapes.forEach(shape => {
+      shape.vertices.forEach((p1, i) => {
+        const p2 = shape.vertices[(i + 1) % shape.vertices.length];
+        targets.push(p1, { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 });
+        edges.push([p1, p2]);
+      });
+    });
+    if (targets.length === 0) return NO_SNAP;
+
+    if (!axis) {
+      const pointSnap = this.findPointSnap(points, targets, tolerance);
+      if (pointSnap) return pointSnap;
+
+      const edgeSnap = this.findEdgeSnap(points, edges, tolerance, false);
+      if (edgeSnap) return edgeSnap;
+    }
+
+    const alignX = axis !== 'y' ? this.findAlignment(points, targets, tolerance, 'x') : null;
+    const alignY = axis !== 'x' ? this.findAlignment(points, targets, tolerance, 'y') : null;
+    if (alignX || alignY) {
+      return {
+        dx: alignX?.delta ?? 0,
+        dy: alignY?.delta ?? 0,
+        snappedX: !!alignX,
+        snappedY: !!alignY,
+        alignX: alignX ?? undefined,
+        alignY: alignY ?? undefined,
+      };
+    }
+
+    return (!axis && this.findEdgeSnap(points, edges, tolerance, true)) || NO_SNAP;
+  }
+
+  // Draws the guides for a snap result once the final correction (dx, dy) is known
+  public showGuides(result: ObjectSnapResult, points: Point[], dx: number, dy: number): void {
+    this.clearGuides();
+    const layer = this.layer;
+    if (!layer) return;
+
+    const scale = this.viewportSvc.scale;
+    const addGuide = (linePoints: number[]) => layer.add(new Konva.Line({
+      points: linePoints,
+      stroke: '#DB2777',
+      strokeWidth: 1 / scale,
+      dash: [4 / scale, 4 / scale],
+      name: 'snap-guide',
+      listening: false,
+    }));
+    const moved = (index: number) => ({ x: points[index].x + dx, y: points[index].y + dy });
+
+    if (result.target) {
+      const { point, line } = result.target;
+      const size = 6 / scale;
+      addGuide([point.x - size, point.y - size, point.x + size, point.y + size]);
+      addGuide([point.x - size, point.y + size, point.x + size, point.y - size]);
+      if (line) {
+        addGuide([line[0].x, line[0].y, line[1].x, line[1].y]);
+      }
+    }
+    if (result.alignX) {
+      const p = moved(result.alignX.pointIndex);
+      addGuide([result.alignX.point.x, result.alignX.point.y, result.alignX.point.x, p.y]);
+    }
+    if (result.alignY) {
+      const p = moved(result.alignY.pointIndex);
+      addGuide([result.alignY.point.x, result.alignY.point.y, p.x, result.alignY.point.y]);
+    }
+    layer.batchDraw();
+  }
+
+  public clearGuides(): void {
+    if (!this.layer) return;
+    this.layer.find('.snap-guide').forEach(node => node.destroy());
+    this.layer.batchDraw();
+  }
+
+  private findPointSnap(points: Point[], targets: Point[], tolerance: number): ObjectSnapResult | null {
+    let best: ObjectSnapResult | null = null;
+    let bestDistance = tolerance;
+    points.forEach((p, pointIndex) => {
+      targets.forEach(t => {
+        const distance = Math.hypot(t.x - p.x, t.y - p.y);
+        if (distance <= bestDistance) {
+          bestDistance = distance;
+          best = {
+            dx: t.x - p.x,
+            dy: t.y - p.y,
+            snappedX: true,
+            snappedY: true,
+            target: { point: t, pointIndex },
+          };
+        }
+      });
+    });
+    return best;
+  }
+
+  // Closest point on an edge, or with extensions on, on the line running past its ends
+  private findEdgeSnap(points: Point[], edges: [Point, Point][], tolerance: number, extensions: boolean): ObjectSnapResult | null {
+    let best: ObjectSnapResult | null = null;
+    let bestDistance = tolerance;
+    points.forEach((p, pointIndex) => {
+      edges.forEach(([a, b]) => {
+        const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+        if (lengthSq === 0) return;
+
+        const t = ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lengthSq;
+        const onEdge = t >= 0 && t <= 1;
+        if (onEdge === extensions) return;
+
+        const projected = { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+        const distance = Math.hypot(projected.x - p.x, projected.y - p.y);
+        if (distance <= bestDistance) {
+          bestDistance = distance;
+          // An extension guide runs from the nearer end of the edge to the snapped point
+          const from = t < 0 ? a : b;
+          best = {
+            dx: projected.x - p.x,
+            dy: projected.y - p.y,
+            snappedX: true,
+            snappedY: true,
+            target: { point: projected, pointIndex, line: onEdge ? [a, b] : [from, projected] },
+          };
+        }
+      });
+    });
+    return best;
+  }
+
+  private findAlignment(
+    points: Point[], targets: Point[], tolerance: number, axis: 'x' | 'y'
+  ): { delta: number; point: Point; pointIndex: number } | null {
+    let best: { delta: number; point: Point; pointIndex: number } | null = null;
+    points.forEach((p, pointIndex) => {
+      targets.forEach(t => {
+        const delta = t[axis] - p[axis];
+        if (Math.abs(delta) <= tolerance && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+          best = { delta, point: t, pointIndex };
+        }
+      });
+    });
+    return best;
+  }
+}
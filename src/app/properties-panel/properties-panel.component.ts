@@ -0,0 +1,354 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { Cutout, CutoutKind, DrawingStateService, Shape, ShapeConstraint, ShapeEditError } from '../drawing-state.service';
+import { GeometryService } from '../geometry.service';
+import { UnitsService } from '../units.service';
+
+// One row per vertex: the vertex itself, its corner, and the segment that starts at it
+interface VertexRow {
+  x: string;
+  y: string;
+  length: string;
+  depth: string;
+  radius: string;
+  angle: string;
+}
+
+type RowField = keyof VertexRow;
+
+// Constraints that apply to one row: its segment's direction and length, and its corner
+type RowConstraint = 'horizontal' | 'vertical' | 'length' | 'angle';
+type PairConstraint = 'parallel' | 'perpendicular' | 'equal';
+
+interface CutoutRow {
+  kind: CutoutKind;
+  width: string;
+  height: string;
+  radius: string;
+  edges: [number, number];
+  distances: [string, string];
+}
+
+type CutoutField = 'width' | 'height' | 'radius' | 'distance0' | 'distance1';
+
+// Typical sizes for a new cutout, in millimetres: an undermount sink, a cooktop, a
+// bowl and a tap hole
+const CUTOUT_DEFAULTS: { [kind in CutoutKind]: { width: number; height: number; cornerRadius: number } } = {
+  rectangle: { width: 560, height: 490, cornerRadius: 0 },
+  rounded: { width: 760, height: 430, cornerRadius: 25 },
+  oval: { width: 500, height: 380, cornerRadius: 0 },
+  circle: { width: 35, height: 35, cornerRadius: 0 },
+};
+
+@Component({
+  selector: 'app-properties-panel',
+  standalone: true,
+  templateUrl: './properties-panel.component.html',
+  styleUrls: ['./properties-panel.component.scss'],
+})
+export class PropertiesPanelComponent implements OnInit, OnDestroy {
+  shape: Shape | null = null;
+  rows: VertexRow[] = [];
+  constraintLabels: string[] = [];
+  cutoutRows: CutoutRow[] = [];
+  readonly cutoutKinds: { kind: CutoutKind; label: string }[] = [
+    { kind: 'rectangle', label: 'Rectangular' },
+    { kind: 'rounded', label: 'Rectangular redondeado' },
+    { kind: 'oval', label: 'Ovalado' },
+    { kind: 'circle', label: 'Circular' },
+  ];
+  unitLabel = '';
+  error: string | null = null;
+  // Edge that turns when an angle is typed
+  angleRotateEdge: 'prev' | 'next' = 'next';
+
+  private stateSubscription: Subscription | undefined;
+
+  constructor(
+    private stateSvc: DrawingStateService,
+    private geometrySvc: GeometryService,
+    private unitsSvc: UnitsService
+  ) {}
+
+  ngOnInit(): void {
+    this.stateSubscription = this.stateSvc.state$.subscribe(state => {
+      const shape = state.shapes.find(s => s.id === state.selectedShapeId) ?? null;
+      if (shape?.id !== this.shape?.id) {
+        this.error = null;
+      }
+      this.shape = shape;
+      this.unitLabel = this.unitsSvc.unitLabel();
+      this.rows = shape ? shape.vertices.map((_, i) => this.buildRow(shape, i)) : [];
+      this.constraintLabels = shape?.constraints?.map(c => this.describeConstraint(c)) ?? [];
+      this.cutoutRows = shape?.cutouts?.map(c => this.buildCutoutRow(c)) ?? [];
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  update(index: number, field: RowField, input: HTMLInputElement): void {
+    const shape = this.shape;
+    if (!shape) return;
+
+    this.error = this.apply(shape, index, field, input.value);
+    // Show the value the shape ended up with, rounded as everywhere else (or unchanged, on error)
+    input.value = this.rows[index]?.[field] ?? '';
+  }
+
+  hasConstraint(index: number, type: RowConstraint): boolean {
+    return this.findRowConstraint(index, type) !== -1;
+  }
+
+  // Fixes or frees a row's segment direction, segment length or corner angle, fixing
+  // lengths and angles at their current value
+  toggleConstraint(index: number, type: RowConstraint): void {
+    const shape = this.shape;
+    if (!shape) return;
+
+    const existing = this.findRowConstraint(index, type);
+    if (existing !== -1) {
+      this.stateSvc.removeConstraint(shape.id, existing);
+      this.error = null;
+      return;
+    }
+
+    let constraint: ShapeConstraint;
+    if (type === 'angle') {
+      const angle = this.geometrySvc.getInteriorAngle(shape, index);
+      if (angle === null) {
+        this.error = `Esquina ${index + 1}: tiene un lado sin largo y su ángulo no se puede fijar.`;
+        return;
+      }
+      constraint = { type, vertex: index, angle };
+    } else if (type === 'length') {
+      const p1 = shape.vertices[index];
+      const p2 = shape.vertices[(index + 1) % shape.vertices.length];
+      constraint = { type, segment: index, length: Math.hypot(p2.x - p1.x, p2.y - p1.y) };
+    } else {
+      constraint = { type, segment: index };
+    }
+    const subject = type === 'angle' ? `Esquina ${index + 1}` : `Lado ${index + 1}`;
+    this.error = this.tryEdit(subject, () => this.stateSvc.addConstraint(shape.id, constraint));
+  }
+
+  addPairConstraint(type: string, first: string, second: string): void {
+    const shape = this.shape;
+    if (!shape || !['parallel', 'perpendicular', 'equal'].includes(type)) return;
+
+    const a = parseInt(first, 10);
+    const b = parseInt(second, 10);
+    if (a === b) {
+      this.error = 'Elige dos lados distintos.';
+      return;
+    }
+    const constraint = { type: type as PairConstraint, segments: [a, b] as [number, number] };
+    this.error = this.tryEdit(`Lados ${a + 1} y ${b + 1}`, () => this.stateSvc.addConstraint(shape.id, constraint));
+  }
+
+  removeConstraint(constraintIndex: number): void {
+    if (!this.shape) return;
+    this.stateSvc.removeConstraint(this.shape.id, constraintIndex);
+    this.error = null;
+  }
+
+  // New cutouts start centred on the shape, measured from its longest side and the side
+  // most nearly square to it
+  addCutout(kind: string): void {
+    const shape = this.shape;
+    const defaults = CUTOUT_DEFAULTS[kind as CutoutKind];
+    const center = shape && this.geometrySvc.getShapeCentroid(shape);
+    if (!shape || !defaults || !center) return;
+
+    const n = shape.vertices.length;
+    const directions = shape.vertices.map((p, i) => {
+      const q = shape.vertices[(i + 1) % n];
+      return { x: q.x - p.x, y: q.y - p.y };
+    });
+    const lengths = directions.map(d => Math.hypot(d.x, d.y));
+    const first = lengths.indexOf(Math.max(...lengths));
+    const squareness = directions.map((d, i) =>
+      lengths[i] === 0 ? 0 : Math.abs(d.x * directions[first].y - d.y * directions[first].x) / (lengths[i] * lengths[first])
+    );
+    const second = squareness.indexOf(Math.max(...squareness));
+    const edges: [number, number] = [first, second];
+
+    const cutout: Omit<Cutout, 'id'> = {
+      kind: kind as CutoutKind,
+      width: this.unitsSvc.mmToPx(defaults.width),
+      height: this.unitsSvc.mmToPx(defaults.height),
+      cornerRadius: this.unitsSvc.mmToPx(defaults.cornerRadius),
+      edges,
+      distances: [
+        this.geometrySvc.getEdgeDistance(shape, first, center),
+        this.geometrySvc.getEdgeDistance(shape, second, center),
+      ],
+    };
+    this.error = this.tryEdit('Hueco nuevo', () => this.stateSvc.addCutout(shape.id, cutout));
+  }
+
+  updateCutout(index: number, field: CutoutField, input: HTMLInputElement): void {
+    const shape = this.shape;
+    const cutout = shape?.cutouts?.[index];
+    if (!shape || !cutout) return;
+
+    const value = this.unitsSvc.parseLength(input.value);
+    if (value === null) {
+      this.error = `Hueco ${index + 1}: introduce una medida válida, p. ej. 120 o 1.2 m.`;
+    } else {
+      const changes: Partial<Cutout> = field === 'width' ? { width: value }
+        : field === 'height' ? { height: value }
+        : field === 'radius' ? { cornerRadius: value }
+        : field === 'distance0' ? { distances: [value, cutout.distances[1]] }
+        : { distances: [cutout.distances[0], value] };
+      this.error = this.tryEdit(`Hueco ${index + 1}`, () => this.stateSvc.updateCutout(shape.id, cutout.id, changes));
+    }
+    const row = this.cutoutRows[index];
+    if (row) {
+      input.value = field === 'distance0' ? row.distances[0]
+        : field === 'distance1' ? row.distances[1]
+        : row[field];
+    }
+  }
+
+  setCutoutKind(index: number, select: HTMLSelectElement): void {
+    const shape = this.shape;
+    const cutout = shape?.cutouts?.[index];
+    if (!shape || !cutout) return;
+
+    const kind = select.value as CutoutKind;
+    this.error = this.tryEdit(`Hueco ${index + 1}`, () => this.stateSvc.updateCutout(shape.id, cutout.id, { kind }));
+    select.value = this.cutoutRows[index]?.kind ?? kind;
+  }
+
+  // Measures the cutout from another side, keeping it where it is
+  setCutoutEdge(index: number, which: 0 | 1, select: HTMLSelectElement): void {
+    const shape = this.shape;
+    const cutout = shape?.cutouts?.[index];
+    const frame = shape && cutout && this.geometrySvc.getCutoutFrame(shape, cutout);
+    if (!shape || !cutout || !frame) return;
+
+    const edge = parseInt(select.value, 10);
+    const edges: [number, number] = which === 0 ? [edge, cutout.edges[1]] : [cutout.edges[0], edge];
+    const distances: [number, number] = [
+      this.geometrySvc.getEdgeDistance(shape, edges[0], frame.center),
+      this.geometrySvc.getEdgeDistance(shape, edges[1], frame.center),
+    ];
+    this.error = this.tryEdit(`Hueco ${index + 1}`, () =>
+      this.stateSvc.updateCutout(shape.id, cutout.id, { edges, distances })
+    );
+    select.value = String(this.cutoutRows[index]?.edges[which] ?? edge);
+  }
+
+  removeCutout(index: number): void {
+    const cutout = this.shape?.cutouts?.[index];
+    if (!this.shape || !cutout) return;
+    this.stateSvc.removeCutout(this.shape.id, cutout.id);
+    this.error = null;
+  }
+
+  private findRowConstraint(index: number, type: RowConstraint): number {
+    return this.shape?.constraints?.findIndex(c =>
+      c.type === type && (c.type === 'angle' ? c.vertex === index : 'segment' in c && c.segment === index)
+    ) ?? -1;
+  }
+
+  private describeConstraint(c: ShapeConstraint): string {
+    switch (c.type) {
+      case 'horizontal':
+        return `Lado ${c.segment + 1} horizontal`;
+      case 'vertical':
+        return `Lado ${c.segment + 1} vertical`;
+      case 'length':
+        return `Lado ${c.segment + 1} fijo en ${this.unitsSvc.formatLength(c.length)}`;
+      case 'angle':
+        return `Esquina ${c.vertex + 1} fija en ${c.angle.toFixed(1)}°`;
+      case 'parallel':
+        return `Lados ${c.segments[0] + 1} y ${c.segments[1] + 1} paralelos`;
+      case 'perpendicular':
+        return `Lados ${c.segments[0] + 1} y ${c.segments[1] + 1} perpendiculares`;
+      case 'equal':
+        return `Lados ${c.segments[0] + 1} y ${c.segments[1] + 1} iguales`;
+    }
+  }
+
+  private apply(shape: Shape, index: number, field: RowField, text: string): string | null {
+    const numVertices = shape.vertices.length;
+    const p1 = shape.vertices[index];
+    const p2 = shape.vertices[(index + 1) % numVertices];
+
+    if (field === 'angle') {
+      const angle = parseFloat(text.replace(',', '.'));
+      if (isNaN(angle)) return `Esquina ${index + 1}: introduce un ángulo en grados, p. ej. 90.`;
+      return this.tryEdit(`Esquina ${index + 1}`, () =>
+        this.stateSvc.setVertexAngle(shape.id, index, angle, this.angleRotateEdge)
+      );
+    }
+
+    const value = this.unitsSvc.parseLength(text);
+    if (value === null) {
+      return `Vértice ${index + 1}: introduce una medida válida, p. ej. 120 o 1.2 m.`;
+    }
+
+    switch (field) {
+      case 'x':
+        return this.tryEdit(`Vértice ${index + 1}`, () => this.stateSvc.updateVertexPosition(shape.id, index, { x: value, y: p1.y }));
+      case 'y':
+        return this.tryEdit(`Vértice ${index + 1}`, () => this.stateSvc.updateVertexPosition(shape.id, index, { x: p1.x, y: value }));
+      case 'length':
+        return this.tryEdit(`Lado ${index + 1}`, () => this.stateSvc.setSegmentLength(shape.id, index, value));
+      case 'depth': {
+        const chord = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+        if (Math.abs(value) > chord) {
+          return `Lado ${index + 1}: la curvatura no puede superar la cuerda del lado (${this.unitsSvc.formatLength(chord)}).`;
+        }
+        this.stateSvc.setSegmentDepth(shape.id, index, value);
+        break;
+      }
+      case 'radius':
+        if (value < 0) return `Esquina ${index + 1}: el radio no puede ser negativo.`;
+        this.stateSvc.setCornerRadius(shape.id, index, value);
+        break;
+    }
+    return null;
+  }
+
+  private tryEdit(subject: string, edit: () => void): string | null {
+    try {
+      edit();
+      return null;
+    } catch (error) {
+      if (!(error instanceof ShapeEditError)) throw error;
+      return `${subject}: ${error.message}`;
+    }
+  }
+
+  private buildCutoutRow(cutout: Cutout): CutoutRow {
+    return {
+      kind: cutout.kind,
+      width: this.unitsSvc.formatLengthValue(cutout.width),
+      height: this.unitsSvc.formatLengthValue(cutout.height),
+      radius: this.unitsSvc.formatLengthValue(cutout.cornerRadius),
+      edges: cutout.edges,
+      distances: [
+        this.unitsSvc.formatLengthValue(cutout.distances[0]),
+        this.unitsSvc.formatLengthValue(cutout.distances[1]),
+      ],
+    };
+  }
+
+  private buildRow(shape: Shape, index: number): VertexRow {
+    const vertex = shape.vertices[index];
+    const angle = this.geometrySvc.getInteriorAngle(shape, index);
+    return {
+      x: this.unitsSvc.formatLengthValue(vertex.x),
+      y: this.unitsSvc.formatLengthValue(vertex.y),
+      // Along the curve, as the canvas labels it
+      length: this.unitsSvc.formatLengthValue(this.geometrySvc.getSegmentLength(shape, index)),
+      depth: this.unitsSvc.formatLengthValue(shape.segmentDepths[index] || 0),
+      radius: this.unitsSvc.formatLengthValue(shape.cornerRadii[index] || 0),
+      angle: angle === null ? '' : angle.toFixed(1),
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { Injectable } from '@angular/core';
+import { DrawingState, Shape } from './drawing-state.service';
+import { GeometryService } from './geometry.service';
+import { UnitsService } from './units.service';
+
+export interface SvgExportOptions {
+  dimensions: boolean;
+  angles: boolean;
+}
+
+const DEFAULT_OPTIONS: SvgExportOptions = {
+  dimensions: true,
+  angles: true,
+};
+
+// Extra room around the drawing so labels and bulging segments are not clipped
+const MARGIN = 50;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SvgExportService {
+  constructor(
+    private geometrySvc: GeometryService,
+    private unitsSvc: UnitsService
+  ) { }
+
+  public exportSvg(state: DrawingState, options: Partial<SvgExportOptions> = {}): string {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const shapes = state.shapes.filter(shape => shape.vertices.length >= 3);
+
+    const allVertices = shapes.flatMap(shape => shape.vertices);
+    const maxDepth = Math.max(0, ...shapes.flatMap(shape => shape.segmentDepths.map(d => Math.abs(d))));
+    const minX = (allVertices.length ? Math.min(...allVertices.map(v => v.x)) : 0) - maxDepth - MARGIN;
+    const minY = (allVertices.length ? Math.min(...allVertices.map(v => v.y)) : 0) - maxDepth - MARGIN;
+    const maxX = (allVertices.length ? Math.max(...allVertices.map(v => v.x)) : 0) + maxDepth + MARGIN;
+    const maxY = (allVertices.length ? Math.max(...allVertices.map(v => v.y)) : 0) + maxDepth + MARGIN;
+    const width = maxX - minX;
+    const height = maxY - minY;
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.num(width)}" height="${this.num(height)}" viewBox="${this.num(minX)} ${this.num(minY)} ${this.num(width)} ${this.num(height)}">`,
+    ];
+
+    shapes.forEach(shape => lines.push(...this.renderShape(shape, opts)));
+
+    lines.push('</svg>', '');
+    return lines.join('\n');
+  }
+
+  private renderShape(shape: Shape, opts: SvgExportOptions): string[] {
+    const lines = [
+      `  <g id="${this.escape(shape.id)}">`,
+      `    <path d="${this.geometrySvc.generateShapePathData(shape)}" fill="#ADD8E6" fill-rule="evenodd" fill-opacity="0.5" stroke="#1F2937" stroke-width="2"/>`,
+    ];
+
+    if (opts.dimensions) {
+      shape.vertices.forEach((_, i) => lines.push(this.renderSegmentLabel(shape, i)));
+    }
+    if (opts.angles) {
+      shape.vertices.forEach((_, i) => {
+        const label = this.renderAngleLabel(shape, i);
+        if (label) lines.push(label);
+      });
+    }
+
+    lines.push('  </g>');
+    return lines;
+  }
+
+  // Mirrors KonvaRendererService.updateSegmentLabel placement
+  private renderSegmentLabel(shape: Shape, segmentIndex: number): string {
+    const { vertices } = shape;
+    const p1 = vertices[segmentIndex];
+    const p2 = vertices[(segmentIndex + 1) % vertices.length];
+    const length = this.geometrySvc.getSegmentLength(shape, segmentIndex);
+    const midpoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+
+    const isHorizontal = Math.abs(p1.y - p2.y) < Math.abs(p1.x - p2.x);
+    const offset = 15;
+    const position = isHorizontal
+      ? `x="${this.num(midpoint.x)}" y="${this.num(midpoint.y - offset)}" text-anchor="middle"`
+      : `x="${this.num(midpoint.x + offset)}" y="${this.num(midpoint.y)}" text-anchor="start"`;
+
+    return `    <text ${position} dominant-baseline="middle" font-family="sans-serif" font-size="14" fill="#1F2937">${this.escape(this.unitsSvc.formatLength(length))}</text>`;
+  }
+
+  // Mirrors KonvaRendererService.updateAngleLabel placement
+  private renderAngleLabel(shape: Shape, vertexIndex: number): string | null {
+    const angle = this.geometrySvc.getInteriorAngle(shape, vertexIndex);
+    const bisector = this.geometrySvc.getVertexBisector(shape, vertexIndex);
+    if (angle === null || !bisector) return null;
+
+    const vertex = shape.vertices[vertexIndex];
+    const offset = 25;
+    const x = vertex.x + bisector.x * offset;
+    const y = vertex.y + bisector.y * offset;
+
+    return `    <text x="${this.num(x)}" y="${this.num(y)}" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" font-size="14" fill="#8B5CF6">${angle.toFixed(1)}°</text>`;
+  }
+
+  private num(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,126 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { DrawingState, DrawingStateService, EDGE_TYPE_LABELS, EdgeType, Shape } from '../drawing-state.service';
+import { GeometryService } from '../geometry.service';
+import { UnitsService } from '../units.service';
+
+interface TakeoffRow {
+  shapeId: string;
+  area: string;
+  perimeter: string;
+  size: string;
+  centroid: string;
+  cutouts: number;
+}
+
+interface EdgeTotal {
+  label: string;
+  length: string;
+  // Face of the upstand, for backsplashes
+  area: string;
+}
+
+// Quantities an estimator prices by: area and finished edge length of every piece, as
+// drawn (fillets and curved segments included, cutouts removed), and their totals for
+// the drawing
+@Component({
+  selector: 'app-takeoff-panel',
+  standalone: true,
+  templateUrl: './takeoff-panel.component.html',
+  styleUrls: ['./takeoff-panel.component.scss'],
+})
+export class TakeoffPanelComponent implements OnInit, OnDestroy {
+  rows: TakeoffRow[] = [];
+  selectedShapeIds: string[] = [];
+  total: TakeoffRow | null = null;
+  edgeTotals: EdgeTotal[] = [];
+  collapsed = false;
+
+  private stateSubscription: Subscription | undefined;
+
+  constructor(
+    private stateSvc: DrawingStateService,
+    private geometrySvc: GeometryService,
+    private unitsSvc: UnitsService
+  ) {}
+
+  ngOnInit(): void {
+    this.stateSubscription = this.stateSvc.state$.subscribe(state => this.update(state));
+  }
+
+  ngOnDestroy(): void {
+    this.stateSubscription?.unsubscribe();
+  }
+
+  select(shapeId: string): void {
+    this.stateSvc.selectShapes([shapeId]);
+  }
+
+  private update(state: DrawingState): void {
+    this.selectedShapeIds = state.selectedShapeIds;
+    this.rows = state.shapes.map(shape => this.buildRow(shape.id, [shape]));
+    this.total = state.shapes.length > 1 ? this.buildRow('', state.shapes) : null;
+    this.edgeTotals = this.buildEdgeTotals(state.shapes);
+  }
+
+  // Edge length per finish, in the order the finishes are listed; backsplashes of
+  // different heights are quoted separately
+  private buildEdgeTotals(shapes: Shape[]): EdgeTotal[] {
+    const totals = new Map<string, { type: EdgeType | null; height: number; length: number }>();
+    const joints = new Set<string>();
+    shapes.forEach(shape => shape.vertices.forEach((_, i) => {
+      const finish = shape.edgeFinishes?.[i] ?? null;
+      // Both sides of a joint are one seam
+      if (finish?.type === 'seam') {
+        if (finish.jointId && joints.has(finish.jointId)) return;
+        joints.add(finish.jointId ?? '');
+      }
+      const height = finish?.type === 'backsplash' ? finish.backsplashHeight ?? 0 : 0;
+      const key = `${finish?.type ?? ''}:${height}`;
+      const total = totals.get(key) ?? { type: finish?.type ?? null, height, length: 0 };
+      total.length += this.geometrySvc.getEdgeLength(shape, i);
+      totals.set(key, total);
+    }));
+
+    const order = [...Object.keys(EDGE_TYPE_LABELS), null];
+    return [...totals.values()]
+      .sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type) || a.height - b.height)
+      .map(total => ({
+        label: total.type === null ? 'Sin especificar'
+          : total.type === 'seam' ? `Junturas (${joints.size})`
+          : total.type === 'backsplash' ? `${EDGE_TYPE_LABELS.backsplash} de ${this.unitsSvc.formatLength(total.height)}`
+          : EDGE_TYPE_LABELS[total.type],
+        length: this.unitsSvc.formatLength(total.length),
+        area: total.type === 'backsplash' ? this.unitsSvc.formatArea(total.length * total.height) : '',
+      }));
+  }
+
+  private buildRow(shapeId: string, shapes: Shape[]): TakeoffRow {
+    const area = shapes.reduce((sum, shape) => sum + this.geometrySvc.getArea(shape), 0);
+    const perimeter = shapes.reduce((sum, shape) => sum + this.geometrySvc.getPerimeter(shape), 0);
+    const bounds = shapes
+      .map(shape => this.geometrySvc.getShapeBounds(shape))
+      .filter(b => b !== null);
+    const centroid = this.geometrySvc.getCentroid(shapes);
+
+    let size = '';
+    if (bounds.length > 0) {
+      const minX = Math.min(...bounds.map(b => b.x));
+      const minY = Math.min(...bounds.map(b => b.y));
+      const maxX = Math.max(...bounds.map(b => b.x + b.width));
+      const maxY = Math.max(...bounds.map(b => b.y + b.height));
+      size = `${this.unitsSvc.formatLength(maxX - minX)} × ${this.unitsSvc.formatLength(maxY - minY)}`;
+    }
+
+    return {
+      shapeId,
+      area: this.unitsSvc.formatArea(area),
+      perimeter: this.unitsSvc.formatLength(perimeter),
+      size,
+      centroid: centroid
+        ? `${this.unitsSvc.formatLengthValue(centroid.x)}, ${this.unitsSvc.formatLengthValue(centroid.y)}`
+        : '',
+      cutouts: shapes.reduce((sum, shape) => sum + (shape.cutouts?.length ?? 0), 0),
+    };
+  }
+}
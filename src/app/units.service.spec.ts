@@ -0,0 +1,26 @@
+import { TestBed } from '@angular/core/testing';
+import { DrawingStateService } from './drawing-state.service';
+import { UnitsService } from './units.service';
+
+describe('UnitsService', () => {
+  let service: UnitsService;
+  let state: DrawingStateService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(UnitsService);
+    state = TestBed.inject(DrawingStateService);
+  });
+
+  it('should format areas in square metres at the document scale', () => {
+    state.updateSettings({ unit: 'mm', precision: 0, mmPerPixel: 10 });
+    expect(service.formatArea(20000)).toBe('2.00 m²');
+    state.updateSettings({ precision: 3 });
+    expect(service.formatArea(20000)).toBe('2.000 m²');
+  });
+
+  it('should format areas in square feet for imperial units', () => {
+    state.updateSettings({ unit: 'ft-in', precision: 0, mmPerPixel: 1 });
+    expect(service.formatArea(304.8 * 304.8 * 1.5)).toBe('1.50 ft²');
+  });
+});
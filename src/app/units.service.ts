@@ -0,0 +1,106 @@
+import { Injectable } from '@angular/core';
+import { DrawingSettings, DrawingStateService, LengthUnit } from './drawing-state.service';
+
+const MM_PER_UNIT: { [unit in LengthUnit]: number } = {
+  'mm': 1,
+  'cm': 10,
+  'm': 1000,
+  'in': 25.4,
+  'ft-in': 25.4,
+};
+
+const MM_PER_FOOT = 304.8;
+
+export const UNIT_LABELS: { [unit in LengthUnit]: string } = {
+  'mm': 'mm',
+  'cm': 'cm',
+  'm': 'm',
+  'in': 'in',
+  'ft-in': 'ft-in',
+};
+
+// Converts between canvas pixels and the real-world units chosen for the document.
+// All shapes stay in pixels; only what the user reads and types goes through here.
+@Injectable({
+  providedIn: 'root'
+})
+export class UnitsService {
+  constructor(private stateSvc: DrawingStateService) { }
+
+  private get settings(): DrawingSettings {
+    return this.stateSvc.getState().settings;
+  }
+
+  public pxToMm(px: number): number {
+    return px * this.settings.mmPerPixel;
+  }
+
+  public mmToPx(mm: number): number {
+    return mm / this.settings.mmPerPixel;
+  }
+
+  public unitLabel(): string {
+    return UNIT_LABELS[this.settings.unit];
+  }
+
+  // Length in the document unit, with its unit symbol
+  public formatLength(px: number): string {
+    const { unit } = this.settings;
+    if (unit === 'ft-in') {
+      return this.formatFeetInches(this.pxToMm(px));
+    }
+    const suffix = unit === 'in' ? '"' : ` ${unit}`;
+    return `${this.formatLengthValue(px)}${suffix}`;
+  }
+
+  // Length in the document unit without the symbol, suitable as an input value
+  public formatLengthValue(px: number): string {
+    const { unit, precision } = this.settings;
+    if (unit === 'ft-in') {
+      return this.formatFeetInches(this.pxToMm(px));
+    }
+    return (this.pxToMm(px) / MM_PER_UNIT[unit]).toFixed(precision);
+  }
+
+  // Area in square metres, or square feet for imperial units, as estimators quote it
+  public formatArea(squarePx: number): string {
+    const { unit, precision } = this.settings;
+    const squareMm = squarePx * this.settings.mmPerPixel * this.settings.mmPerPixel;
+    const digits = Math.max(precision, 2);
+    if (unit === 'in' || unit === 'ft-in') {
+      return `${(squareMm / (MM_PER_FOOT * MM_PER_FOOT)).toFixed(digits)} ft²`;
+    }
+    return `${(squareMm / 1e6).toFixed(digits)} m²`;
+  }
+
+  // Parses a length typed by the user and returns it in pixels. Bare numbers are in the
+  // document unit; explicit units (mm, cm, m, in, ", ft, ') are honoured, as is 5' 3".
+  public parseLength(text: string): number | null {
+    const input = text.trim().toLowerCase().replace(',', '.');
+    if (!input) return null;
+
+    const number = '(-?\\d+(?:\\.\\d+)?|-?\\.\\d+)';
+    const feetInches = input.match(new RegExp(`^${number}\\s*(?:'|ft)\\s*(?:${number}\\s*(?:"|in)?)?$`));
+    if (feetInches) {
+      const feet = parseFloat(feetInches[1]);
+      const inches = feetInches[2] ? parseFloat(feetInches[2]) : 0;
+      return this.mmToPx(feet * MM_PER_FOOT + Math.sign(feet || 1) * inches * MM_PER_UNIT['in']);
+    }
+
+    const withUnit = input.match(new RegExp(`^${number}\\s*(mm|cm|m|in|")?$`));
+    if (!withUnit) return null;
+
+    const value = parseFloat(withUnit[1]);
+    const unit = withUnit[2] === '"' ? 'in' : (withUnit[2] as LengthUnit | undefined) ?? this.settings.unit;
+    return this.mmToPx(value * MM_PER_UNIT[unit]);
+  }
+
+  private formatFeetInches(mm: number): string {
+    const { precision } = this.settings;
+    const sign = mm < 0 ? '-' : '';
+    const totalInches = Number((Math.abs(mm) / MM_PER_UNIT['in']).toFixed(precision));
+    const feet = Math.floor(totalInches / 12);
+    const inches = totalInches - feet * 12;
+    return `${sign}${feet}' ${inches.toFixed(precision)}"`;
+  }
+}
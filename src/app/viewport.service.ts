@@ -0,0 +1,234 @@
+import { Injectable } from '@angular/core';
+import Konva from 'konva';
+import { Subject } from 'rxjs';
+import { DrawingStateService } from './drawing-state.service';
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 20;
+const WHEEL_ZOOM_FACTOR = 1.1;
+const FIT_MARGIN = 40; // Screen pixels left around the fitted shapes
+
+// Zoom and pan of the stage. The stage transform maps world coordinates (the ones
+// stored in the drawing) to the screen; layers themselves are never transformed.
+@Injectable({
+  providedIn: 'root'
+})
+export class ViewportService {
+  private stage: Konva.Stage | undefined;
+  private readonly _changes = new Subject<void>();
+
+  // Emits after every zoom or pan
+  readonly changes$ = this._changes.asObservable();
+
+  private isSpacePressed = false;
+  private panStart: { x: number; y: number } | null = null;
+  private pinch: { distance: number; center: { x: number; y: number } } | null = null;
+
+  constructor(private stateSvc: DrawingStateService) { }
+
+  public initialize(stage: Konva.Stage): void {
+    this.stage = stage;
+    this.attachStageHandlers();
+    window.addEventListener('keydown', this.handleKeyDown.bind(this));
+    window.addEventListener('keyup', this.handleKeyUp.bind(this));
+  }
+
+  // True while the pointer is being used to move the view rather than to draw or edit
+  public get isNavigating(): boolean {
+    return this.panStart !== null || this.pinch !== null || this.isSpacePressed;
+  }
+
+  public get scale(): number {
+    return this.stage?.scaleX() ?? 1;
+  }
+
+  // Pointer position in world coordinates
+  public getPointerPosition(): { x: number; y: number } | null {
+    return this.stage?.getRelativePointerPosition() ?? null;
+  }
+
+  public zoomBy(factor: number, screenPoint?: { x: number; y: number }): void {
+    const stage = this.stage;
+    if (!stage) return;
+
+    const center = screenPoint ?? { x: stage.width() / 2, y: stage.height() / 2 };
+    const oldScale = stage.scaleX();
+    const newScale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, oldScale * factor));
+
+    // Keep the world point under the cursor in place
+    const worldPoint = {
+      x: (center.x - stage.x()) / oldScale,
+      y: (center.y - stage.y()) / oldScale,
+    };
+    stage.scale({ x: newScale, y: newScale });
+    stage.position({
+      x: center.x - worldPoint.x * newScale,
+      y: center.y - worldPoint.y * newScale,
+    });
+    this.redraw();
+  }
+
+  public zoomToFit(): void {
+    this.zoomToShapes(this.stateSvc.getState().shapes.map(shape => shape.id));
+  }
+
+  public zoomToSelection(): void {
+    this.zoomToShapes(this.stateSvc.getState().selectedShapeIds);
+  }
+
+  public resetZoom(): void {
+    if (!this.stage) return;
+    this.stage.scale({ x: 1, y: 1 });
+    this.stage.position({ x: 0, y: 0 });
+    this.redraw();
+  }
+
+  private zoomToShapes(shapeIds: string[]): void {
+    const stage = this.stage;
+    const bounds = this.getWorldBounds(shapeIds);
+    if (!stage || !bounds) return;
+
+    const availableWidth = Math.max(1, stage.width() - FIT_MARGIN * 2);
+    const availableHeight = Math.max(1, stage.height() - FIT_MARGIN * 2);
+    const scale = Math.min(
+      MAX_SCALE,
+      Math.max(MIN_SCALE, Math.min(availableWidth / Math.max(bounds.width, 1), availableHeight / Math.max(bounds.height, 1)))
+    );
+
+    stage.scale({ x: scale, y: scale });
+    stage.position({
+      x: stage.width() / 2 - (bounds.x + bounds.width / 2) * scale,
+      y: stage.height() / 2 - (bounds.y + bounds.height / 2) * scale,
+    });
+    this.redraw();
+  }
+
+  private redraw(): void {
+    this.stage?.batchDraw();
+    this._changes.next();
+  }
+
+  // Bounding box of the rendered shapes (fillets and curved segments included)
+  private getWorldBounds(shapeIds: string[]): { x: number; y: number; width: number; height: number } | null {
+    const stage = this.stage;
+    if (!stage || shapeIds.length === 0) return null;
+
+    const rects = stage.find('.shape')
+      .filter(node => shapeIds.includes(node.getAttr('shapeId')))
+      .map(node => node.getClientRect({ relativeTo: node.getLayer() ?? undefined }));
+    if (rects.length === 0) return null;
+
+    const minX = Math.min(...rects.map(r => r.x));
+    const minY = Math.min(...rects.map(r => r.y));
+    const maxX = Math.max(...rects.map(r => r.x + r.width));
+    const maxY = Math.max(...rects.map(r => r.y + r.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  private attachStageHandlers(): void {
+    const stage = this.stage;
+    if (!stage) return;
+
+    stage.on('wheel', (e) => {
+      e.evt.preventDefault();
+      const pointer = stage.getPointerPosition();
+      if (!pointer) return;
+      this.zoomBy(e.evt.deltaY < 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR, pointer);
+    });
+
+    // Middle button, or any button while Space is held, pans the view
+    stage.on('mousedown', (e) => {
+      if (e.evt.button !== 1 && !this.isSpacePressed) return;
+      e.evt.preventDefault();
+      this.panStart = { x: e.evt.clientX, y: e.evt.clientY };
+      stage.container().style.cursor = 'grabbing';
+    });
+
+    stage.on('touchstart', (e) => {
+      if (e.evt.touches.length === 2) {
+        this.pinch = this.getPinch(e.evt.touches);
+      }
+    });
+
+    stage.on('touchmove', (e) => {
+      if (!this.pinch || e.evt.touches.length !== 2) return;
+      e.evt.preventDefault();
+
+      const pinch = this.getPinch(e.evt.touches);
+      // Follow the fingers: pan by the center's movement, zoom by the spread
+      stage.position({
+        x: stage.x() + pinch.center.x - this.pinch.center.x,
+        y: stage.y() + pinch.center.y - this.pinch.center.y,
+      });
+      this.zoomBy(pinch.distance / this.pinch.distance, pinch.center);
+      this.pinch = pinch;
+    });
+
+    stage.on('touchend', (e) => {
+      if (e.evt.touches.length < 2) {
+        this.pinch = null;
+      }
+    });
+
+    window.addEventListener('mousemove', (e) => {
+      if (!this.panStart) return;
+      stage.position({
+        x: stage.x() + e.clientX - this.panStart.x,
+        y: stage.y() + e.clientY - this.panStart.y,
+      });
+      this.panStart = { x: e.clientX, y: e.clientY };
+      this.redraw();
+    });
+
+    window.addEventListener('mouseup', () => {
+      if (!this.panStart) return;
+      this.panStart = null;
+      stage.container().style.cursor = this.isSpacePressed ? 'grab' : '';
+    });
+  }
+
+  private getPinch(touches: TouchList): { distance: number; center: { x: number; y: number } } {
+    const stage = this.stage!;
+    const box = stage.container().getBoundingClientRect();
+    const a = { x: touches[0].clientX - box.left, y: touches[0].clientY - box.top };
+    const b = { x: touches[1].clientX - box.left, y: touches[1].clientY - box.top };
+    return {
+      distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+    };
+  }
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.code !== 'Space' || this.isEditableTarget(e.target)) return;
+    e.preventDefault();
+    if (!this.isSpacePressed) {
+      this.isSpacePressed = true;
+      this.setLayersListening(false);
+      if (this.stage && !this.panStart) {
+        this.stage.container().style.cursor = 'grab';
+      }
+    }
+  }
+
+  private handleKeyUp(e: KeyboardEvent): void {
+    if (e.code !== 'Space') return;
+    this.isSpacePressed = false;
+    this.setLayersListening(true);
+    if (this.stage && !this.panStart) {
+      this.stage.container().style.cursor = '';
+    }
+  }
+
+  // While Space is held the shapes and handles ignore the pointer, so dragging pans
+  private setLayersListening(listening: boolean): void {
+    this.stage?.getLayers().forEach(layer => layer.listening(listening));
+  }
+
+  // Keys typed into a form field belong to it, not to the canvas shortcuts
+  public isEditableTarget(target: EventTarget | null): boolean {
+    return target instanceof HTMLInputElement
+      || target instanceof HTMLTextAreaElement
+      || target instanceof HTMLSelectElement
+      || (target instanceof HTMLElement && target.isContentEditable);
+  }
+}